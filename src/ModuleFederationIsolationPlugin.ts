@@ -1,18 +1,27 @@
 import path from 'path'
 import fs from 'fs'
-import {
-  Compiler,
-  RuntimeGlobals,
-  RuntimeModule,
-  Template,
-  Module,
-  NormalModule,
-  Compilation,
-  WebpackError,
-} from 'webpack'
+import querystring from 'querystring'
+import { createHash } from 'crypto'
+// Hint: only types are imported from webpack, runtime values are taken from `compiler.webpack` so that the plugin
+// also works with Rspack, which exposes a compatible API
+import type { Compiler, RuntimeModule, Module, NormalModule, Compilation, Chunk, Dependency } from 'webpack'
 import { validate } from 'schema-utils'
 import semverSatisfies from 'semver/functions/satisfies'
-import { RuntimePluginOptions, RuntimeStateStrategy, RuntimeVerbosity } from './ModuleFederationIsolationRuntimePlugin'
+import {
+  isExportPath,
+  RuntimePluginOptions,
+  RuntimeSharedDependencyOptions,
+  RuntimeSharedDependencyPattern,
+  RuntimeStateStrategy,
+  RuntimeVerbosity,
+} from './ModuleFederationIsolationRuntimePlugin'
+import type { RuntimePluginLoaderOptions } from './ModuleFederationIsolationRuntimePluginLoader'
+import {
+  IsolationReport,
+  IsolationReportIgnoredDuplicate,
+  IsolationReportSharedDependency,
+  renderIsolationReport,
+} from './ModuleFederationIsolationReport'
 
 const PLUGIN_NAME = 'ModuleFederationIsolationPlugin'
 
@@ -29,12 +38,29 @@ export enum Verbosity {
   Debug = 'debug',
 }
 
+export enum ManifestLoading {
+  Inline = 'inline',
+  Lazy = 'lazy',
+}
+
+export enum ModuleIdentity {
+  Path = 'path',
+  Export = 'export',
+}
+
 const stateStrategyToRuntimeStateStrategy: Record<StateStrategy, number> = {
   [StateStrategy.UseOrigin]: RuntimeStateStrategy.UseOrigin,
   [StateStrategy.Isolate]: RuntimeStateStrategy.Isolate,
   [StateStrategy.ReuseOwn]: RuntimeStateStrategy.ReuseOwn,
 }
 
+const runtimeStateStrategyToStateStrategy = Object.fromEntries(
+  Object.entries(stateStrategyToRuntimeStateStrategy).map(([stateStrategy, runtimeStateStrategy]) => [
+    runtimeStateStrategy,
+    stateStrategy,
+  ])
+) as Record<number, StateStrategy>
+
 const verbosityToRuntimeVerbosity: Record<Verbosity, number> = {
   [Verbosity.Unset]: RuntimeVerbosity.Unset,
   [Verbosity.None]: RuntimeVerbosity.None,
@@ -42,16 +68,55 @@ const verbosityToRuntimeVerbosity: Record<Verbosity, number> = {
   [Verbosity.Debug]: RuntimeVerbosity.Debug,
 }
 
+export type SharedDependencyOptions = {
+  stateStrategy: StateStrategy
+  // Origin host name -> options, overriding the above when the dependency is provided by that host
+  origins?: Record<string, SharedDependencyOriginOptions>
+}
+
+export type SharedDependencyOriginOptions = {
+  stateStrategy: StateStrategy
+}
+
+export type LoaderIdentityOptions = {
+  // Options left out of the identity, e.g. the ones that only affect caching or logging
+  ignoredOptions?: string[]
+  // Fixed identity used instead of the options
+  identity?: string
+}
+
 export type PluginOptions = {
   entry: string | string[]
   stateStrategy: StateStrategy
-  sharedDependencies: Record<
-    string,
-    {
-      stateStrategy: StateStrategy
-    }
-  >
+  // Keys are share keys (e.g. `react` or `react-query/devtools`), globs (e.g. `@acme/*`) or regular expressions
+  // written as `/source/flags`
+  sharedDependencies: Record<string, SharedDependencyOptions>
+  isolationGroup: string
   verbosity: Verbosity
+  manifestFilename: string
+  // HTML report emitted next to the remote entry, `[name]` is replaced by the remote entry name
+  reportFilename: string
+  manifestLoading: ManifestLoading
+  manifestPruning: boolean
+  // Module imported by the runtime plugin to receive its events, either a path relative to the compiler context or
+  // a module request
+  runtimeHooks: string
+  // Highest strategy that can be picked at runtime. Empty means the highest configured strategy
+  maximumStateStrategy: StateStrategy | ''
+  // Use the origin instance of singleton shared dependencies unless a rule explicitly applies to them
+  respectSingletons: boolean
+  // Loader package name -> how its options are turned into the identity of the modules it processes
+  loaderIdentity: Record<string, LoaderIdentityOptions>
+  // With `export`, modules imported through the package exports are also identified by their export specifier
+  moduleIdentity: ModuleIdentity
+}
+
+type DescriptionFileData = {
+  name?: string
+  version?: string
+  dependencies?: Record<string, string>
+  devDependencies?: Record<string, string>
+  peerDependencies?: Record<string, string>
 }
 
 type PackageInfo = {
@@ -65,6 +130,17 @@ interface ConcatenatedModule extends Module {
   rootModule: Module
 }
 
+interface ModuleDependency extends Dependency {
+  request?: string
+}
+
+interface ConsumeSharedModule extends Module {
+  options?: {
+    shareKey?: string
+    singleton?: boolean
+  }
+}
+
 type Manifest = {
   packages: Record<
     string,
@@ -77,24 +153,65 @@ type Manifest = {
     >
   >
   consumeSharedRedirection: Record<WebpackModuleId, ManifestConsumeSharedRedirection>
+  // Provided module ID -> loadable chunks holding its synchronous dependencies
+  providedModuleChunks: Record<WebpackModuleId, WebpackChunkId[]>
 }
 
 type ManifestConsumeSharedRedirection = {
   providedModuleId: WebpackModuleId | null
+  // Only present for singleton shared dependencies
+  singletonShareKey?: string
+}
+
+type RemoteEntryInfo = {
+  name: string
+  filename: string
+}
+
+/**
+ * Version of the emitted isolation manifest format, bumped on every breaking change
+ */
+export const ISOLATION_MANIFEST_VERSION = 1
+
+/**
+ * Standalone isolation manifest emitted as a JSON asset next to the remote entry
+ */
+export type IsolationManifestAsset = {
+  version: typeof ISOLATION_MANIFEST_VERSION
+  name: string
+  packages: Manifest['packages']
+  consumeSharedRedirection: Manifest['consumeSharedRedirection']
+  providedModuleChunks: Manifest['providedModuleChunks']
 }
 
 export type WebpackModuleId = string | number
 
+export type WebpackChunkId = string | number
+
 export type SizeOptimizedManifest = {
   pre: string[]
   pkg: Record<string, Record<string, [string[], Record<string, WebpackModuleId>]>>
   red: Record<WebpackModuleId, SizeOptimizedSharedModuleRedirection>
+  chk: Record<WebpackModuleId, WebpackChunkId[]>
+  // Path of the asset holding `pre` and `pkg` relative to the public path, only set when they are loaded lazily
+  lzy?: string
 }
 
+export type LazySizeOptimizedManifest = Pick<SizeOptimizedManifest, 'pre' | 'pkg'>
+
 export type SizeOptimizedSharedModuleRedirection = {
   mid: WebpackModuleId | null
+  // Share key, only present for singleton shared dependencies
+  sng?: string
 }
 
+// Marks the requests of the runtime plugin that are processed by the runtime plugin loader
+const RUNTIME_PLUGIN_RESOURCE_QUERY = '?mfi-runtime-plugin'
+
+const LAZY_MANIFEST_FILENAME = 'mf-isolation-packages.[contenthash].json'
+
+const SHARED_DEPENDENCY_REGEXP_KEY = /^\/(.+)\/([a-z]*)$/
+
 const PLUGIN_OPTIONS_SCHEMA = {
   type: 'object',
   properties: {
@@ -114,90 +231,316 @@ const PLUGIN_OPTIONS_SCHEMA = {
             type: 'string',
             enum: Object.values(StateStrategy),
           },
+          origins: {
+            type: 'object',
+            additionalProperties: {
+              type: 'object',
+              properties: {
+                stateStrategy: {
+                  type: 'string',
+                  enum: Object.values(StateStrategy),
+                },
+              },
+            },
+          },
         },
       },
     },
+    isolationGroup: {
+      type: 'string',
+    },
     verbosity: {
       type: 'string',
       enum: Object.values(Verbosity),
     },
+    manifestFilename: {
+      type: 'string',
+    },
+    reportFilename: {
+      type: 'string',
+    },
+    manifestLoading: {
+      type: 'string',
+      enum: Object.values(ManifestLoading),
+    },
+    manifestPruning: {
+      type: 'boolean',
+    },
+    runtimeHooks: {
+      type: 'string',
+    },
+    maximumStateStrategy: {
+      type: 'string',
+      enum: ['', ...Object.values(StateStrategy)],
+    },
+    respectSingletons: {
+      type: 'boolean',
+    },
+    moduleIdentity: {
+      type: 'string',
+      enum: Object.values(ModuleIdentity),
+    },
+    loaderIdentity: {
+      type: 'object',
+      additionalProperties: {
+        type: 'object',
+        properties: {
+          ignoredOptions: {
+            type: 'array',
+            items: { type: 'string' },
+          },
+          identity: {
+            type: 'string',
+          },
+        },
+        additionalProperties: false,
+      },
+    },
   },
   additionalProperties: false,
 }
 
-class ModuleFederationIsolationInfoModule extends RuntimeModule {
-  constructor(private readonly manifest: Manifest) {
-    super('mf isolation runtime', RuntimeModule.STAGE_ATTACH)
+function getSizeOptimizedManifest(manifest: Manifest): SizeOptimizedManifest {
+  const prefixToIndex: Record<string, number> = {}
+  const sizeOptimizedManifest: SizeOptimizedManifest = {
+    pre: [],
+    pkg: {},
+    red: Object.entries(manifest.consumeSharedRedirection).reduce((acc, [moduleId, redirection]) => {
+      acc[moduleId] = {
+        mid: redirection.providedModuleId,
+      }
+      if (redirection.singletonShareKey !== undefined) {
+        acc[moduleId].sng = redirection.singletonShareKey
+      }
+      return acc
+    }, {} as Record<WebpackModuleId, SizeOptimizedSharedModuleRedirection>),
+    chk: manifest.providedModuleChunks,
   }
 
-  getSizeOptimizedManifest(manifest: Manifest): SizeOptimizedManifest {
-    const prefixToIndex: Record<string, number> = {}
-    const sizeOptimizedManifest: SizeOptimizedManifest = {
-      pre: [],
-      pkg: {},
-      red: Object.entries(manifest.consumeSharedRedirection).reduce((acc, [moduleId, redirection]) => {
-        acc[moduleId] = {
-          mid: redirection.providedModuleId,
-        }
-        return acc
-      }, {} as Record<WebpackModuleId, SizeOptimizedSharedModuleRedirection>),
+  const rawManifestPrefixes = sizeOptimizedManifest.pre
+  const rawManifestPackages = sizeOptimizedManifest.pkg
+
+  for (const packageName of Object.keys(manifest.packages)) {
+    if (!rawManifestPackages[packageName]) {
+      rawManifestPackages[packageName] = {}
     }
 
-    const rawManifestPrefixes = sizeOptimizedManifest.pre
-    const rawManifestPackages = sizeOptimizedManifest.pkg
+    const packageVersions = manifest.packages[packageName]
+    for (const version of Object.keys(packageVersions)) {
+      const minifiedModulePathToModuleId: Record<string, WebpackModuleId> = {}
 
-    for (const packageName of Object.keys(manifest.packages)) {
-      if (!rawManifestPackages[packageName]) {
-        rawManifestPackages[packageName] = {}
-      }
+      Object.entries(packageVersions[version].modulePathToModuleId).forEach(([modulePath, moduleId]) => {
+        const modulePathNoLoaderNoQuery = modulePath.split(/[!?]/)[0]
+        const lastSlashIndex = modulePathNoLoaderNoQuery.lastIndexOf('/')
+        if (lastSlashIndex === -1) {
+          minifiedModulePathToModuleId[modulePath] = moduleId
+          return
+        }
 
-      const packageVersions = manifest.packages[packageName]
-      for (const version of Object.keys(packageVersions)) {
-        const minifiedModulePathToModuleId: Record<string, WebpackModuleId> = {}
+        const prefix = modulePath.slice(0, lastSlashIndex)
+        const suffix = modulePath.slice(lastSlashIndex + 1)
+        if (!prefixToIndex[prefix]) {
+          prefixToIndex[prefix] = rawManifestPrefixes.length
+          rawManifestPrefixes.push(prefix)
+        }
 
-        Object.entries(packageVersions[version].modulePathToModuleId).forEach(([modulePath, moduleId]) => {
-          const modulePathNoLoaderNoQuery = modulePath.split(/[!?]/)[0]
-          const lastSlashIndex = modulePathNoLoaderNoQuery.lastIndexOf('/')
-          if (lastSlashIndex === -1) {
-            minifiedModulePathToModuleId[modulePath] = moduleId
-            return
-          }
+        minifiedModulePathToModuleId[`${prefixToIndex[prefix]}/${suffix}`] = moduleId
+      })
 
-          const prefix = modulePath.slice(0, lastSlashIndex)
-          const suffix = modulePath.slice(lastSlashIndex + 1)
-          if (!prefixToIndex[prefix]) {
-            prefixToIndex[prefix] = rawManifestPrefixes.length
-            rawManifestPrefixes.push(prefix)
-          }
+      rawManifestPackages[packageName][version] = [
+        packageVersions[version].semverRangesIn,
+        minifiedModulePathToModuleId,
+      ]
+    }
+  }
 
-          minifiedModulePathToModuleId[`${prefixToIndex[prefix]}/${suffix}`] = moduleId
-        })
+  return sizeOptimizedManifest
+}
 
-        rawManifestPackages[packageName][version] = [
-          packageVersions[version].semverRangesIn,
-          minifiedModulePathToModuleId,
-        ]
-      }
+function stableStringify(value: unknown): string {
+  // Hint: object keys are sorted so that the same options always produce the same code
+  return JSON.stringify(value, (_, nestedValue) =>
+    nestedValue && typeof nestedValue === 'object' && !Array.isArray(nestedValue)
+      ? Object.fromEntries(Object.entries(nestedValue).sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0)))
+      : nestedValue
+  )
+}
+
+function getHash(compilation: Compilation, content: string): string {
+  const { hashFunction, hashDigest, hashDigestLength } = compilation.outputOptions
+  return compilation.compiler.webpack.util
+    .createHash(hashFunction ?? 'md4')
+    .update(content)
+    .digest(hashDigest ?? 'hex')
+    .toString()
+    .slice(0, hashDigestLength)
+}
+
+// Hint: identities are compared across independent builds, so they can't depend on the hash options of each output
+const IDENTITY_HASH_LENGTH = 16
+
+function getIdentityHash(content: string): string {
+  return createHash('sha256').update(content).digest('hex').slice(0, IDENTITY_HASH_LENGTH)
+}
+
+// Parses loader options given as a query string, e.g. `loader?modules&mode=local`, as loader-runner does
+function parseLoaderQueryOptions(options: string): unknown {
+  const query = options.startsWith('?') ? options.slice(1) : options
+  if (query.startsWith('{') && query.endsWith('}')) {
+    try {
+      return JSON.parse(query)
+    } catch {
+      return query
     }
+  }
+
+  return { ...querystring.parse(query, '&', '=', { maxKeys: 0 }) }
+}
+
+function getCanonicalLoaderOptions(
+  value: unknown,
+  getPathIdentity: (filePath: string) => string,
+  getCodeIdentity: (code: string) => string,
+  ancestors: object[] = []
+): unknown {
+  if (typeof value === 'string') {
+    return path.isAbsolute(value) ? getPathIdentity(value) : value
+  }
 
-    return sizeOptimizedManifest
+  if (typeof value === 'function') {
+    return `[function ${getCodeIdentity(value.toString())}]`
   }
 
-  generate(): string {
-    const sizeOptimizedManifest = this.getSizeOptimizedManifest(this.manifest)
+  if (typeof value === 'bigint' || typeof value === 'symbol') {
+    return String(value)
+  }
 
-    return Template.asString([
-      `${RuntimeGlobals.require}.federation = ${RuntimeGlobals.require}.federation || {};`,
-      `${RuntimeGlobals.require}.federation.isolation = ${JSON.stringify(sizeOptimizedManifest)};`,
+  if (value instanceof RegExp) {
+    return `[regexp ${value.toString()}]`
+  }
+
+  if (!value || typeof value !== 'object') {
+    return value
+  }
+
+  if (ancestors.includes(value)) {
+    return '[circular]'
+  }
+
+  const nestedAncestors = [...ancestors, value]
+  if (Array.isArray(value)) {
+    return value.map((item) => getCanonicalLoaderOptions(item, getPathIdentity, getCodeIdentity, nestedAncestors))
+  }
+
+  return Object.fromEntries(
+    Object.entries(value).map(([key, nestedValue]) => [
+      key,
+      getCanonicalLoaderOptions(nestedValue, getPathIdentity, getCodeIdentity, nestedAncestors),
     ])
+  )
+}
+
+function isConsumeSharedModule(module: Module): boolean {
+  return module.constructor.name === 'ConsumeSharedModule' || module.type === 'consume-shared-module'
+}
+
+function isProvideSharedModule(module: Module): boolean {
+  return module.constructor.name === 'ProvideSharedModule' || module.type === 'provide-module'
+}
+
+function isConcatenatedModule(module: Module): module is ConcatenatedModule {
+  // Hint: Rspack modules don't keep webpack's class names, so we identify them by shape
+  return module.constructor.name === 'ConcatenatedModule' || 'rootModule' in module
+}
+
+function isNormalModule(module: Module): module is NormalModule {
+  return module.constructor.name === 'NormalModule' || typeof (module as NormalModule).resource === 'string'
+}
+
+function isRspackCompiler(compiler: Compiler): boolean {
+  return 'rspackVersion' in compiler.webpack
+}
+
+function createModuleFederationIsolationInfoModule(
+  webpack: Compiler['webpack'],
+  getRuntimeManifest: () => SizeOptimizedManifest,
+  readsLazyManifestFromFileSystem: boolean
+): RuntimeModule {
+  const { RuntimeGlobals, Template } = webpack
+
+  class ModuleFederationIsolationInfoModule extends webpack.RuntimeModule {
+    constructor() {
+      super('mf isolation runtime', webpack.RuntimeModule.STAGE_ATTACH)
+    }
+
+    // Path of the output directory relative to the file of the chunk
+    getOutputDirectoryFromChunk(): string {
+      if (!this.compilation || !this.chunk) {
+        return ''
+      }
+
+      const { outputOptions } = this.compilation
+      const chunkFilename = this.compilation.getPath(
+        this.chunk.filenameTemplate ??
+          (this.chunk.canBeInitial() ? outputOptions.filename : outputOptions.chunkFilename) ??
+          '',
+        { chunk: this.chunk, contentHashType: 'javascript' }
+      )
+      return path.posix.relative(path.posix.dirname(`/${chunkFilename}`), '/')
+    }
+
+    generate(): string {
+      const runtimeManifest = getRuntimeManifest()
+      return Template.asString([
+        `${RuntimeGlobals.require}.federation = ${RuntimeGlobals.require}.federation || {};`,
+        `${RuntimeGlobals.require}.federation.isolation = ${JSON.stringify(runtimeManifest)};`,
+        // Hint: Node.js can't fetch file paths, so the lazy manifest is read from the output directory instead
+        ...(runtimeManifest.lzy && readsLazyManifestFromFileSystem
+          ? [
+              `${RuntimeGlobals.require}.federation.isolation.lzyRead = function (filename) {`,
+              Template.indent([
+                'return new Promise(function (resolve, reject) {',
+                Template.indent([
+                  `var filePath = require('path').join(__dirname, ${JSON.stringify(
+                    this.getOutputDirectoryFromChunk()
+                  )}, filename);`,
+                  "require('fs').readFile(filePath, 'utf-8', function (error, content) {",
+                  Template.indent([
+                    'if (error) return reject(error);',
+                    'try { resolve(JSON.parse(content)); } catch (parseError) { reject(parseError); }',
+                  ]),
+                  '});',
+                ]),
+                '});',
+              ]),
+              '};',
+            ]
+          : []),
+      ])
+    }
   }
+
+  return new ModuleFederationIsolationInfoModule()
 }
 
 export class ModuleFederationIsolationPlugin {
   private readonly options: PluginOptions
   private readonly remoteEntriesToApply: Set<string> = new Set()
-  private remoteEntryIndex = 0
+  // Share keys declared as singletons in the ModuleFederationPlugin of the applied remote entries
+  private readonly singletonShareKeys: Set<string> = new Set()
+  private readonly appliedRemoteEntries: RemoteEntryInfo[] = []
   private maximumRuntimeStateStrategyRequired: RuntimeStateStrategy
+  private inputFileSystem: Compiler['inputFileSystem'] = null
+  // Normalized description file path -> content, null if it could not be read
+  private readonly descriptionFiles: Map<string, DescriptionFileData | null> = new Map()
+  // Rules of the sharedDependencies option with their patterns compiled, built once per compilation
+  private sharedDependencyRules: {
+    sharedDependencies: Record<string, RuntimeSharedDependencyOptions>
+    patterns: [RegExp, RuntimeSharedDependencyOptions][]
+  } | null = null
+  // Share key -> options of the rule applying to it, undefined if none
+  private readonly sharedDependencyOptionsByShareKey: Map<string, RuntimeSharedDependencyOptions | undefined> =
+    new Map()
 
   constructor(userOptions: Partial<PluginOptions> = {}) {
     validate(PLUGIN_OPTIONS_SCHEMA as any, userOptions, {
@@ -209,25 +552,50 @@ export class ModuleFederationIsolationPlugin {
       entry: '',
       stateStrategy: StateStrategy.Isolate,
       sharedDependencies: {},
+      // Empty means isolated instances are private to this remote
+      isolationGroup: '',
       verbosity: Verbosity.Unset,
+      // Empty means we don't emit the manifest as an asset
+      manifestFilename: '',
+      reportFilename: '',
+      manifestLoading: ManifestLoading.Inline,
+      manifestPruning: false,
+      // Empty means the runtime plugin doesn't import any hooks
+      runtimeHooks: '',
+      maximumStateStrategy: '',
+      respectSingletons: false,
+      loaderIdentity: {},
+      moduleIdentity: ModuleIdentity.Path,
       ...userOptions,
     }
 
+    Object.keys(this.options.sharedDependencies).forEach((key) => this.validateSharedDependencyKey(key))
+
     this.maximumRuntimeStateStrategyRequired = stateStrategyToRuntimeStateStrategy[this.options.stateStrategy]
     for (const sharedDependency of Object.values(this.options.sharedDependencies)) {
-      if (
-        stateStrategyToRuntimeStateStrategy[sharedDependency.stateStrategy] > this.maximumRuntimeStateStrategyRequired
-      ) {
-        this.maximumRuntimeStateStrategyRequired = stateStrategyToRuntimeStateStrategy[sharedDependency.stateStrategy]
+      const stateStrategies = [
+        sharedDependency.stateStrategy,
+        ...Object.values(sharedDependency.origins ?? {}).map(({ stateStrategy }) => stateStrategy),
+      ]
+      for (const stateStrategy of stateStrategies) {
+        if (stateStrategyToRuntimeStateStrategy[stateStrategy] > this.maximumRuntimeStateStrategyRequired) {
+          this.maximumRuntimeStateStrategyRequired = stateStrategyToRuntimeStateStrategy[stateStrategy]
+        }
       }
     }
+    if (
+      this.options.maximumStateStrategy &&
+      stateStrategyToRuntimeStateStrategy[this.options.maximumStateStrategy] > this.maximumRuntimeStateStrategyRequired
+    ) {
+      // Hint: strategies picked at runtime may require more than the configured ones
+      this.maximumRuntimeStateStrategyRequired = stateStrategyToRuntimeStateStrategy[this.options.maximumStateStrategy]
+    }
 
-    const remoteEntriesToApply = new Set<string>()
     if (this.options.entry) {
       if (typeof this.options.entry === 'string') {
-        remoteEntriesToApply.add(this.options.entry)
+        this.remoteEntriesToApply.add(this.options.entry)
       } else {
-        this.options.entry.forEach((entry) => remoteEntriesToApply.add(entry))
+        this.options.entry.forEach((entry) => this.remoteEntriesToApply.add(entry))
       }
     }
   }
@@ -236,39 +604,143 @@ export class ModuleFederationIsolationPlugin {
     return filePath.replace(/\\/g, path.posix.sep)
   }
 
+  getRegExpSourceForGlob(glob: string): string {
+    // Hint: `**` matches across slashes, while `*` only matches within a single path segment
+    const globSource = glob
+      .split('**')
+      .map((globPart) =>
+        globPart
+          .split('*')
+          .map((literal) => literal.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+          .join('[^/]*')
+      )
+      .join('.*')
+    return `^${globSource}$`
+  }
+
+  getRuntimeSharedDependencyOptions(sharedDependency: SharedDependencyOptions): RuntimeSharedDependencyOptions {
+    const runtimeSharedDependency: RuntimeSharedDependencyOptions = {
+      stateStrategy: stateStrategyToRuntimeStateStrategy[sharedDependency.stateStrategy],
+    }
+    if (sharedDependency.origins) {
+      runtimeSharedDependency.origins = Object.fromEntries(
+        Object.entries(sharedDependency.origins).map(([originHost, { stateStrategy }]) => [
+          originHost,
+          { stateStrategy: stateStrategyToRuntimeStateStrategy[stateStrategy] },
+        ])
+      )
+    }
+
+    return runtimeSharedDependency
+  }
+
+  validateSharedDependencyKey(key: string): void {
+    const regExpKeyMatch = key.match(SHARED_DEPENDENCY_REGEXP_KEY)
+    if (!regExpKeyMatch) {
+      return
+    }
+
+    const [, source, flags] = regExpKeyMatch
+    // Hint: the runtime reuses every regular expression with `test`, which would keep its last index with these flags
+    // and alternate between matching and not matching the same share key
+    if (/[gy]/.test(flags)) {
+      throw new Error(
+        `${PLUGIN_NAME}: the sharedDependencies key ${key} can't use the 'g' or 'y' flags, as share keys are matched as a whole`
+      )
+    }
+
+    try {
+      new RegExp(source, flags)
+    } catch (error) {
+      throw new Error(
+        `${PLUGIN_NAME}: the sharedDependencies key ${key} is not a valid regular expression. ${
+          (error as Error).message
+        }`
+      )
+    }
+  }
+
   getRuntimePluginOptions(options: PluginOptions): RuntimePluginOptions {
+    const sharedDependencies: RuntimePluginOptions['sharedDependencies'] = {}
+    const globPatterns: { specificity: number; pattern: RuntimeSharedDependencyPattern }[] = []
+    const regExpPatterns: RuntimeSharedDependencyPattern[] = []
+
+    Object.entries(options.sharedDependencies).forEach(([key, sharedDependency]) => {
+      const runtimeSharedDependency = this.getRuntimeSharedDependencyOptions(sharedDependency)
+      const regExpKeyMatch = key.match(SHARED_DEPENDENCY_REGEXP_KEY)
+      if (regExpKeyMatch) {
+        regExpPatterns.push({ source: regExpKeyMatch[1], flags: regExpKeyMatch[2], options: runtimeSharedDependency })
+      } else if (key.includes('*')) {
+        globPatterns.push({
+          specificity: key.replace(/\*/g, '').length,
+          pattern: { source: this.getRegExpSourceForGlob(key), flags: '', options: runtimeSharedDependency },
+        })
+      } else {
+        sharedDependencies[key] = runtimeSharedDependency
+      }
+    })
+
     return {
       stateStrategy: stateStrategyToRuntimeStateStrategy[options.stateStrategy],
-      sharedDependencies: Object.entries(options.sharedDependencies).reduce<RuntimePluginOptions['sharedDependencies']>(
-        (acc, [packageName, sharedDependency]) => {
-          acc[packageName] = {
-            stateStrategy: stateStrategyToRuntimeStateStrategy[sharedDependency.stateStrategy],
-          }
-          return acc
-        },
-        {}
-      ),
+      sharedDependencies,
+      // Precedence: exact keys, then globs from the most to the least specific, then regular expressions in order
+      sharedDependencyPatterns: [
+        ...globPatterns.sort((a, b) => b.specificity - a.specificity).map(({ pattern }) => pattern),
+        ...regExpPatterns,
+      ],
+      isolationGroup: options.isolationGroup,
       runtimeVerbosity: verbosityToRuntimeVerbosity[options.verbosity],
+      maximumStateStrategy: this.maximumRuntimeStateStrategyRequired,
+      respectSingletons: options.respectSingletons,
     }
   }
 
-  createRuntimePlugin(compiler: Compiler): string {
-    const isolationFolderPath = path.resolve(compiler.context, 'node_modules', '.federation', 'isolation')
-    fs.mkdirSync(isolationFolderPath, { recursive: true })
+  getRuntimePluginRequest(): string {
+    const runtimePluginPath = this.normalizePath(require.resolve('./ModuleFederationIsolationRuntimePlugin'))
+    return `${runtimePluginPath}${RUNTIME_PLUGIN_RESOURCE_QUERY}`
+  }
 
-    const runtimePluginPath = path.resolve(isolationFolderPath, `mfiruntime${this.remoteEntryIndex}.js`)
-    fs.writeFileSync(
-      runtimePluginPath,
-      Template.asString([
-        `const { createMfiRuntimePlugin } = require('${this.normalizePath(
-          path.resolve(__dirname, 'ModuleFederationIsolationRuntimePlugin')
-        )}');`,
-        `module.exports = createMfiRuntimePlugin(${JSON.stringify(this.getRuntimePluginOptions(this.options))});`,
-      ])
-    )
+  addRuntimePluginRule(compiler: Compiler): void {
+    const loaderOptions: RuntimePluginLoaderOptions = {
+      options: stableStringify(this.getRuntimePluginOptions(this.options)),
+    }
+    if (this.options.runtimeHooks) {
+      loaderOptions.hooks = this.options.runtimeHooks
+    }
+
+    // Hint: the loader is applied through a rule rather than an inline request, as Rspack inlines runtime plugin
+    // requests in a data URI module, where inline loaders are ignored. Options don't need to be escaped this way either
+    compiler.options.module.rules.push({
+      resource: require.resolve('./ModuleFederationIsolationRuntimePlugin'),
+      resourceQuery: RUNTIME_PLUGIN_RESOURCE_QUERY,
+      use: [{ loader: require.resolve('./ModuleFederationIsolationRuntimePluginLoader'), options: loaderOptions }],
+    })
+  }
 
-    this.remoteEntryIndex++
-    return runtimePluginPath
+  isWebpackContainerModuleFederationPlugin(compiler: Compiler, plugin: object): boolean {
+    // Hint: Rspack's own ModuleFederationPlugin is built on top of the federation runtime, so it supports runtime plugins
+    return !isRspackCompiler(compiler) && plugin instanceof compiler.webpack.container.ModuleFederationPlugin
+  }
+
+  reportUnsupportedModuleFederationPlugin(compiler: Compiler, plugin: object): void {
+    const moduleFederationPlugin = plugin as { options?: { name?: string }; _options?: { name?: string } }
+    const remoteEntryName =
+      moduleFederationPlugin.options?.name ?? moduleFederationPlugin._options?.name ?? 'remoteEntry'
+    if (this.remoteEntriesToApply.size && !this.remoteEntriesToApply.has(remoteEntryName)) {
+      return
+    }
+
+    compiler.hooks.thisCompilation.tap(PLUGIN_NAME, (compilation) => {
+      compilation.errors.push(
+        new compiler.webpack.WebpackError(
+          compiler.webpack.Template.asString([
+            `${PLUGIN_NAME} can't be applied to remote ${remoteEntryName}, as it uses webpack.container.ModuleFederationPlugin.`,
+            `Isolation is implemented as a federation runtime plugin, which webpack's built-in container doesn't support.`,
+            `Use ModuleFederationPlugin from @module-federation/enhanced instead.`,
+          ])
+        )
+      )
+    })
   }
 
   injectRuntimePlugins(compiler: Compiler): void {
@@ -278,6 +750,11 @@ export class ModuleFederationIsolationPlugin {
       }
 
       if (plugin.constructor.name === 'ModuleFederationPlugin') {
+        if (this.isWebpackContainerModuleFederationPlugin(compiler, plugin)) {
+          this.reportUnsupportedModuleFederationPlugin(compiler, plugin)
+          return
+        }
+
         const moduleFederationPlugin = plugin as any
         if (!moduleFederationPlugin._options) {
           return
@@ -287,14 +764,38 @@ export class ModuleFederationIsolationPlugin {
         const remoteEntryName = moduleFederationPluginOptions.name ?? 'remoteEntry'
 
         if (!this.remoteEntriesToApply.size || this.remoteEntriesToApply.has(remoteEntryName)) {
-          const runtimePluginPath = this.createRuntimePlugin(compiler)
+          if (!this.appliedRemoteEntries.length) {
+            this.addRuntimePluginRule(compiler)
+          }
           moduleFederationPluginOptions.runtimePlugins = moduleFederationPluginOptions.runtimePlugins || []
-          moduleFederationPluginOptions.runtimePlugins.push(runtimePluginPath)
+          moduleFederationPluginOptions.runtimePlugins.push(this.getRuntimePluginRequest())
+          this.getSingletonShareKeys(moduleFederationPluginOptions.shared).forEach((shareKey) =>
+            this.singletonShareKeys.add(shareKey)
+          )
+          this.appliedRemoteEntries.push({
+            name: remoteEntryName,
+            filename: moduleFederationPluginOptions.filename ?? 'remoteEntry.js',
+          })
         }
       }
     })
   }
 
+  getSingletonShareKeys(shared: unknown): string[] {
+    if (!shared || typeof shared !== 'object') {
+      return []
+    }
+
+    // Hint: shared dependencies can be declared as an object or as an array of share keys and objects
+    const sharedEntries: [string, unknown][] = Array.isArray(shared)
+      ? shared.flatMap((item) => (typeof item === 'string' ? [[item, {}]] : Object.entries(item ?? {})))
+      : Object.entries(shared)
+
+    return sharedEntries
+      .filter(([, sharedConfig]) => (sharedConfig as { singleton?: boolean } | null)?.singleton)
+      .map(([key, sharedConfig]) => (sharedConfig as { shareKey?: string }).shareKey ?? key)
+  }
+
   disableConflictingConfiguration(compiler: Compiler): void {
     if (RuntimeStateStrategy.Isolate < this.maximumRuntimeStateStrategyRequired) {
       const originalMangleExports = compiler.options?.optimization?.mangleExports
@@ -321,6 +822,41 @@ export class ModuleFederationIsolationPlugin {
     }
   }
 
+  addDescriptionFileFromResolveData(normalModule: NormalModule): void {
+    // Hint: the resolver already read the description file of the module, so we can save reading it again, and we
+    // get exactly what the resolver saw, whatever the file system it uses
+    const descriptionFilePath = normalModule.resourceResolveData?.descriptionFilePath
+    const descriptionFileData = normalModule.resourceResolveData?.descriptionFileData
+    if (descriptionFilePath && descriptionFileData) {
+      this.descriptionFiles.set(this.normalizePath(descriptionFilePath), descriptionFileData as DescriptionFileData)
+    }
+  }
+
+  readDescriptionFile(descriptionFilePath: string): DescriptionFileData | null {
+    const normalizedDescriptionFilePath = this.normalizePath(descriptionFilePath)
+    const cachedDescriptionFileData = this.descriptionFiles.get(normalizedDescriptionFilePath)
+    if (cachedDescriptionFileData !== undefined) {
+      return cachedDescriptionFileData
+    }
+
+    let descriptionFileData: DescriptionFileData | null = null
+    try {
+      // Hint: reading through webpack's input file system supports Yarn PnP archives and in-memory file systems
+      if (this.inputFileSystem?.readJsonSync) {
+        descriptionFileData = this.inputFileSystem.readJsonSync(descriptionFilePath) as DescriptionFileData
+      } else if (this.inputFileSystem?.readFileSync) {
+        descriptionFileData = JSON.parse(this.inputFileSystem.readFileSync(descriptionFilePath).toString())
+      } else {
+        descriptionFileData = JSON.parse(fs.readFileSync(descriptionFilePath, 'utf-8'))
+      }
+    } catch {
+      descriptionFileData = null
+    }
+
+    this.descriptionFiles.set(normalizedDescriptionFilePath, descriptionFileData)
+    return descriptionFileData
+  }
+
   getPackageJsonPathForModulePath(modulePath: string): string | null {
     if (!modulePath) {
       return null
@@ -330,7 +866,7 @@ export class ModuleFederationIsolationPlugin {
     let packageJsonPath = null
     while (currentRelativeDir !== '.') {
       const possiblePackageJsonPath = path.join(currentRelativeDir, 'package.json')
-      if (fs.existsSync(possiblePackageJsonPath)) {
+      if (this.readDescriptionFile(possiblePackageJsonPath)) {
         packageJsonPath = this.normalizePath(possiblePackageJsonPath)
         break
       } else {
@@ -350,7 +886,7 @@ export class ModuleFederationIsolationPlugin {
       return packageInfoMap[packageJsonPath]
     }
 
-    const descriptionFileContent = require(packageJsonPath)
+    const descriptionFileContent = this.readDescriptionFile(packageJsonPath)
     if (!descriptionFileContent?.name || !descriptionFileContent?.version) {
       return
     }
@@ -399,15 +935,16 @@ export class ModuleFederationIsolationPlugin {
     for (const dependency of dependencies) {
       let dependencyModule: Module | null = dependency.module
 
-      if (dependencyModule.constructor.name === 'ConsumeSharedModule') {
+      if (isConsumeSharedModule(dependencyModule)) {
         dependencyModule = this.getProvidedModuleForSharedModule(dependencyModule, compilation)
       }
 
-      if (!dependencyModule || dependencyModule.constructor.name !== 'NormalModule') {
+      if (!dependencyModule || !isNormalModule(dependencyModule)) {
         continue
       }
 
-      const normalModule = dependencyModule as NormalModule
+      const normalModule = dependencyModule
+      this.addDescriptionFileFromResolveData(normalModule)
       let dependencyPackageJsonPath = normalModule.resourceResolveData?.descriptionFilePath
       if (!dependencyPackageJsonPath) {
         continue
@@ -446,6 +983,381 @@ export class ModuleFederationIsolationPlugin {
     return compilation.moduleGraph.getModule(referencedDependency)
   }
 
+  getModulesReachableFromSharedModules(compilation: Compilation): Set<Module> {
+    const reachableModules: Set<Module> = new Set()
+    const modulesToVisit: Module[] = []
+    compilation.modules.forEach((module) => {
+      if (isConsumeSharedModule(module) || isProvideSharedModule(module)) {
+        modulesToVisit.push(module)
+      }
+    })
+
+    while (modulesToVisit.length) {
+      const module = modulesToVisit.pop() as Module
+      if (reachableModules.has(module)) {
+        continue
+      }
+
+      reachableModules.add(module)
+      for (const connection of compilation.moduleGraph.getOutgoingConnections(module)) {
+        if (connection.module && !reachableModules.has(connection.module)) {
+          modulesToVisit.push(connection.module)
+        }
+      }
+    }
+
+    return reachableModules
+  }
+
+  pruneManifest(manifest: Manifest, unreachableModuleIds: Set<WebpackModuleId>): void {
+    Object.entries(manifest.packages).forEach(([packageName, packageVersions]) => {
+      Object.entries(packageVersions).forEach(([version, { modulePathToModuleId }]) => {
+        Object.entries(modulePathToModuleId).forEach(([modulePath, moduleId]) => {
+          if (unreachableModuleIds.has(moduleId)) {
+            delete modulePathToModuleId[modulePath]
+          }
+        })
+
+        if (!Object.keys(modulePathToModuleId).length) {
+          delete packageVersions[version]
+        }
+      })
+
+      if (!Object.keys(packageVersions).length) {
+        delete manifest.packages[packageName]
+      }
+    })
+  }
+
+  getShareKeyForConsumeSharedModule(consumeSharedModule: ConsumeSharedModule): string | undefined {
+    // Hint: the identifier of consume shared modules is `consume-shared-module|<share scope>|<share key>|...`
+    return consumeSharedModule.options?.shareKey ?? consumeSharedModule.identifier().split('|')[2]
+  }
+
+  isSingletonConsumeSharedModule(consumeSharedModule: ConsumeSharedModule): boolean {
+    const shareKey = this.getShareKeyForConsumeSharedModule(consumeSharedModule)
+    return !!consumeSharedModule.options?.singleton || (!!shareKey && this.singletonShareKeys.has(shareKey))
+  }
+
+  getRuntimeSharedDependencyOptionsForShareKey(shareKey: string): RuntimeSharedDependencyOptions | undefined {
+    if (this.sharedDependencyOptionsByShareKey.has(shareKey)) {
+      return this.sharedDependencyOptionsByShareKey.get(shareKey)
+    }
+
+    if (!this.sharedDependencyRules) {
+      const { sharedDependencies, sharedDependencyPatterns } = this.getRuntimePluginOptions(this.options)
+      this.sharedDependencyRules = {
+        sharedDependencies,
+        patterns: sharedDependencyPatterns.map(({ source, flags, options }) => [new RegExp(source, flags), options]),
+      }
+    }
+
+    const sharedDependencyOptions =
+      this.sharedDependencyRules.sharedDependencies[shareKey] ??
+      this.sharedDependencyRules.patterns.find(([pattern]) => pattern.test(shareKey))?.[1]
+    this.sharedDependencyOptionsByShareKey.set(shareKey, sharedDependencyOptions)
+    return sharedDependencyOptions
+  }
+
+  getRuntimeStateStrategiesForShareKey(shareKey: string): RuntimeStateStrategy[] {
+    const sharedDependency = this.getRuntimeSharedDependencyOptionsForShareKey(shareKey)
+    if (!sharedDependency) {
+      return [stateStrategyToRuntimeStateStrategy[this.options.stateStrategy]]
+    }
+
+    return [
+      sharedDependency.stateStrategy,
+      ...Object.values(sharedDependency.origins ?? {}).map(({ stateStrategy }) => stateStrategy),
+    ]
+  }
+
+  isSingletonKeptByOrigin(shareKey: string): boolean {
+    if (!this.options.respectSingletons) {
+      return false
+    }
+
+    // Hint: singletons use the origin instance unless a rule explicitly says otherwise
+    return (
+      !this.getRuntimeSharedDependencyOptionsForShareKey(shareKey) ||
+      this.getRuntimeStateStrategiesForShareKey(shareKey).every(
+        (stateStrategy) => stateStrategy === RuntimeStateStrategy.UseOrigin
+      )
+    )
+  }
+
+  getPathsToSingletonSharedModules(module: Module, compilation: Compilation): Map<string, Module[]> {
+    const pathsBySingletonShareKey: Map<string, Module[]> = new Map()
+    const parentModules: Map<Module, Module | null> = new Map([[module, null]])
+    const modulesToVisit = [module]
+
+    while (modulesToVisit.length) {
+      const currentModule = modulesToVisit.shift() as Module
+      for (const connection of compilation.moduleGraph.getOutgoingConnections(currentModule)) {
+        const dependencyModule = connection.module
+        if (!dependencyModule || parentModules.has(dependencyModule)) {
+          continue
+        }
+
+        parentModules.set(dependencyModule, currentModule)
+        const shareKey = isConsumeSharedModule(dependencyModule)
+          ? this.getShareKeyForConsumeSharedModule(dependencyModule)
+          : undefined
+        if (!shareKey || !this.isSingletonConsumeSharedModule(dependencyModule)) {
+          // Hint: shared modules other than singletons are translated along with the rest of the subtree
+          modulesToVisit.push(dependencyModule)
+          continue
+        }
+
+        if (!pathsBySingletonShareKey.has(shareKey) && !this.isSingletonKeptByOrigin(shareKey)) {
+          const path: Module[] = []
+          for (
+            let pathModule: Module | null = dependencyModule;
+            pathModule;
+            pathModule = parentModules.get(pathModule) ?? null
+          ) {
+            path.unshift(pathModule)
+          }
+          pathsBySingletonShareKey.set(shareKey, path)
+        }
+      }
+    }
+
+    return pathsBySingletonShareKey
+  }
+
+  clearCompilationCaches(compiler: Compiler): void {
+    // Hint: child compilers don't call thisCompilation, so caches are only cleared for the compilations of the remote
+    compiler.hooks.thisCompilation.tap(PLUGIN_NAME, () => {
+      // Hint: description files may change between compilations in watch mode
+      this.descriptionFiles.clear()
+      this.sharedDependencyRules = null
+      this.sharedDependencyOptionsByShareKey.clear()
+    })
+  }
+
+  reportDuplicatedSingletons(compiler: Compiler): void {
+    // Hint: child compilations, e.g. of HTML templates, don't consume the shared dependencies of the remote
+    compiler.hooks.thisCompilation.tap(PLUGIN_NAME, (compilation) => {
+      compilation.hooks.finishModules.tap(PLUGIN_NAME, () => {
+        compilation.modules.forEach((module) => {
+          if (!isConsumeSharedModule(module)) {
+            return
+          }
+
+          const shareKey = this.getShareKeyForConsumeSharedModule(module)
+          const isSingleton = !!shareKey && this.isSingletonConsumeSharedModule(module)
+          if (
+            !shareKey ||
+            (isSingleton && this.isSingletonKeptByOrigin(shareKey)) ||
+            this.getRuntimeStateStrategiesForShareKey(shareKey).every(
+              (stateStrategy) => stateStrategy === RuntimeStateStrategy.UseOrigin
+            )
+          ) {
+            return
+          }
+
+          const duplicatedSingletons: string[] = []
+          if (isSingleton) {
+            duplicatedSingletons.push(`${shareKey} itself`)
+          }
+
+          // Hint: the fallback module is the closest thing to the module provided by the origin host at build time
+          const fallbackModule = this.getProvidedModuleForSharedModule(module, compilation)
+          if (fallbackModule) {
+            this.getPathsToSingletonSharedModules(fallbackModule, compilation).forEach((path, singletonShareKey) => {
+              const readablePath = [module, ...path]
+                .map((pathModule) =>
+                  isConsumeSharedModule(pathModule)
+                    ? `${this.getShareKeyForConsumeSharedModule(pathModule)} (shared)`
+                    : pathModule.readableIdentifier(compilation.requestShortener)
+                )
+                .join(' -> ')
+              duplicatedSingletons.push(`${singletonShareKey}, through ${readablePath}`)
+            })
+          }
+
+          if (duplicatedSingletons.length) {
+            compilation.warnings.push(
+              new compiler.webpack.WebpackError(
+                compiler.webpack.Template.asString([
+                  `isolating or reusing shared dependency ${shareKey} creates new instances of singleton shared dependencies:`,
+                  compiler.webpack.Template.indent(duplicatedSingletons),
+                  `Use the 'use-origin' strategy for ${shareKey}, enable the respectSingletons option or stop declaring them as singletons.`,
+                ])
+              )
+            )
+          }
+        })
+      })
+    })
+  }
+
+  getReportedSharedDependency(shareKey: string, singleton: boolean): IsolationReportSharedDependency {
+    const sharedDependency = this.getRuntimeSharedDependencyOptionsForShareKey(shareKey)
+    if (!sharedDependency) {
+      return {
+        singleton,
+        stateStrategy:
+          singleton && this.options.respectSingletons ? StateStrategy.UseOrigin : this.options.stateStrategy,
+        origins: {},
+      }
+    }
+
+    return {
+      singleton,
+      stateStrategy: runtimeStateStrategyToStateStrategy[sharedDependency.stateStrategy],
+      origins: Object.fromEntries(
+        Object.entries(sharedDependency.origins ?? {}).map(([originHost, { stateStrategy }]) => [
+          originHost,
+          runtimeStateStrategyToStateStrategy[stateStrategy],
+        ])
+      ),
+    }
+  }
+
+  getShareKeysReachingModules(compilation: Compilation): Map<Module, Set<string>> {
+    const shareKeysByModule: Map<Module, Set<string>> = new Map()
+    compilation.modules.forEach((consumeSharedModule) => {
+      const shareKey = isConsumeSharedModule(consumeSharedModule)
+        ? this.getShareKeyForConsumeSharedModule(consumeSharedModule)
+        : undefined
+      if (!shareKey) {
+        return
+      }
+
+      const visitedModules: Set<Module> = new Set([consumeSharedModule])
+      const modulesToVisit: Module[] = [consumeSharedModule]
+      while (modulesToVisit.length) {
+        const currentModule = modulesToVisit.pop() as Module
+        for (const connection of compilation.moduleGraph.getOutgoingConnections(currentModule)) {
+          const dependencyModule = connection.module
+          // Hint: other shared dependencies are redirected, so their strategy is the one of their own share key
+          if (!dependencyModule || visitedModules.has(dependencyModule) || isConsumeSharedModule(dependencyModule)) {
+            continue
+          }
+
+          visitedModules.add(dependencyModule)
+          modulesToVisit.push(dependencyModule)
+          const shareKeys = shareKeysByModule.get(dependencyModule) ?? new Set()
+          shareKeys.add(shareKey)
+          shareKeysByModule.set(dependencyModule, shareKeys)
+        }
+      }
+    })
+
+    return shareKeysByModule
+  }
+
+  getIsolationReport(
+    compilation: Compilation,
+    manifest: Manifest,
+    packageVersionByModule: Map<Module, [string, string]>,
+    ignoredDuplicates: IsolationReportIgnoredDuplicate[]
+  ): IsolationReport {
+    const report: IsolationReport = {
+      packages: {},
+      sharedDependencies: {},
+      consumeSharedRedirection: manifest.consumeSharedRedirection,
+      ignoredDuplicates,
+    }
+
+    compilation.modules.forEach((module) => {
+      const shareKey = isConsumeSharedModule(module) ? this.getShareKeyForConsumeSharedModule(module) : undefined
+      if (shareKey && !report.sharedDependencies[shareKey]) {
+        report.sharedDependencies[shareKey] = this.getReportedSharedDependency(
+          shareKey,
+          this.isSingletonConsumeSharedModule(module)
+        )
+      }
+    })
+
+    Object.entries(manifest.packages).forEach(([packageName, versions]) => {
+      report.packages[packageName] = {}
+      Object.entries(versions).forEach(([version, { semverRangesIn, modulePathToModuleId }]) => {
+        report.packages[packageName][version] = {
+          semverRangesIn,
+          translatableModulePaths: Object.keys(modulePathToModuleId).filter((modulePath) => !isExportPath(modulePath)),
+          sharedThrough: [],
+        }
+      })
+    })
+
+    this.getShareKeysReachingModules(compilation).forEach((shareKeys, module) => {
+      const [packageName, version] = packageVersionByModule.get(module) ?? []
+      const packageVersion = packageName && version ? report.packages[packageName]?.[version] : undefined
+      if (packageVersion) {
+        packageVersion.sharedThrough = [...new Set([...packageVersion.sharedThrough, ...shareKeys])].sort()
+      }
+    })
+
+    return report
+  }
+
+  getLoadableChunkIdsForProvidedModule(provideSharedModule: Module, compilation: Compilation): WebpackChunkId[] {
+    const { chunkGraph, moduleGraph } = compilation
+    const { AsyncDependenciesBlock } = compilation.compiler.webpack
+    // Hint: Rspack doesn't tell which block a dependency belongs to, so asynchronous imports can't be told apart from
+    // synchronous ones. No chunks are recorded then, and missing factories are reported when translating modules
+    if (
+      typeof moduleGraph.getParentBlock !== 'function' ||
+      typeof chunkGraph.getNumberOfEntryModules !== 'function' ||
+      typeof AsyncDependenciesBlock !== 'function'
+    ) {
+      return []
+    }
+
+    const providedModule = this.getProvidedModuleForSharedModule(provideSharedModule, compilation)
+    if (!providedModule) {
+      return []
+    }
+
+    const getRuntimeNames = (runtime: Chunk['runtime']) =>
+      runtime === undefined ? [] : typeof runtime === 'string' ? [runtime] : [...runtime]
+    const provideSharedModuleRuntimeNames = new Set(
+      [...chunkGraph.getModuleChunks(provideSharedModule)].flatMap((chunk) => getRuntimeNames(chunk.runtime))
+    )
+
+    const chunkIds: Set<WebpackChunkId> = new Set()
+    const visitedModules: Set<Module> = new Set()
+    const modulesToVisit = [providedModule]
+    while (modulesToVisit.length) {
+      const module = modulesToVisit.pop() as Module
+      if (visitedModules.has(module)) {
+        continue
+      }
+
+      visitedModules.add(module)
+      chunkGraph.getModuleChunks(module).forEach((chunk) => {
+        // Hint: only chunks of the runtime of the remote entry can be loaded by it, and entry chunks would start
+        // their entry modules
+        if (
+          chunk.id !== null &&
+          !chunk.hasRuntime() &&
+          !chunkGraph.getNumberOfEntryModules(chunk) &&
+          getRuntimeNames(chunk.runtime).some((runtimeName) => provideSharedModuleRuntimeNames.has(runtimeName))
+        ) {
+          chunkIds.add(chunk.id)
+        }
+      })
+
+      for (const connection of moduleGraph.getOutgoingConnections(module)) {
+        // Modules imported asynchronously are loaded by the isolated modules themselves, and shared ones are
+        // redirected to the host providing them
+        if (
+          !connection.module ||
+          isConsumeSharedModule(connection.module) ||
+          (connection.dependency && moduleGraph.getParentBlock(connection.dependency) instanceof AsyncDependenciesBlock)
+        ) {
+          continue
+        }
+
+        modulesToVisit.push(connection.module)
+      }
+    }
+
+    return [...chunkIds]
+  }
+
   getProvidedModuleIdForSharedModule(sharedModule: Module, compilation: Compilation): WebpackModuleId | null {
     const referencedModule = this.getProvidedModuleForSharedModule(sharedModule, compilation)
     if (!referencedModule) {
@@ -455,8 +1367,79 @@ export class ModuleFederationIsolationPlugin {
     return compilation.chunkGraph.getModuleId(referencedModule)
   }
 
+  getPathIdentity(
+    filePath: string,
+    rootProjectPackageJsonPath: string,
+    packageInfoByPackageJsonPath: Record<string, PackageInfo>
+  ): string {
+    const packageJsonPath = this.getPackageJsonPathForModulePath(filePath)
+    const packageInfo =
+      packageJsonPath && packageJsonPath !== rootProjectPackageJsonPath
+        ? this.getPackageInfo(packageJsonPath, packageInfoByPackageJsonPath)
+        : undefined
+    if (packageJsonPath && packageInfo) {
+      return `${packageInfo.name}@${this.normalizePath(path.relative(path.dirname(packageJsonPath), filePath))}`
+    }
+
+    // Hint: anything else is identified relative to the project, which is the same on every machine
+    return this.normalizePath(path.relative(path.dirname(rootProjectPackageJsonPath), filePath))
+  }
+
+  getLoaderIdentity(
+    loaderPackageName: string,
+    loaderOptions: unknown,
+    rootProjectPackageJsonPath: string,
+    packageInfoByPackageJsonPath: Record<string, PackageInfo>
+  ): string {
+    const loaderIdentityOptions = this.options.loaderIdentity[loaderPackageName]
+    if (loaderIdentityOptions?.identity !== undefined) {
+      return loaderIdentityOptions.identity
+    }
+
+    let identifiedOptions = loaderOptions
+    if (loaderIdentityOptions?.ignoredOptions) {
+      const parsedOptions = typeof loaderOptions === 'string' ? parseLoaderQueryOptions(loaderOptions) : loaderOptions
+      if (parsedOptions && typeof parsedOptions === 'object') {
+        identifiedOptions = Object.fromEntries(
+          Object.entries(parsedOptions).filter(([option]) => !loaderIdentityOptions.ignoredOptions?.includes(option))
+        )
+      }
+    }
+
+    // Hint: option order, absolute paths and code don't change what the loader does, but would make the module
+    // paths differ between builds
+    return stableStringify(
+      getCanonicalLoaderOptions(
+        identifiedOptions,
+        (filePath) => this.getPathIdentity(filePath, rootProjectPackageJsonPath, packageInfoByPackageJsonPath),
+        getIdentityHash
+      )
+    )
+  }
+
+  getExportPathsForModule(compilation: Compilation, module: Module, packageName: string): string[] {
+    const exportPaths: Set<string> = new Set()
+    for (const connection of compilation.moduleGraph.getIncomingConnections(module)) {
+      const request = (connection.dependency as ModuleDependency | null)?.request
+      if (!request || (request !== packageName && !request.startsWith(`${packageName}/`))) {
+        continue
+      }
+
+      // Hint: the condition tells apart the builds a package exports for each module system, which the runtime
+      // matches first before trying other conditions of the same export specifier with a compatible exports type.
+      // It's only the category of the dependency, so resolution conditions like `browser` or `node` are not recorded
+      const category = connection.dependency?.category
+      const condition = category === 'esm' ? 'import' : category === 'commonjs' ? 'require' : 'default'
+      const exportsType = module.buildMeta?.exportsType ?? 'dynamic'
+      exportPaths.add(`.${request.slice(packageName.length)}|${condition}|${exportsType}`)
+    }
+
+    return [...exportPaths]
+  }
+
   getLoaderQueryForNormalModule(
     normalModule: NormalModule,
+    rootProjectPackageJsonPath: string,
     packageInfoByPackageJsonPath: Record<string, PackageInfo>
   ): string {
     return (
@@ -475,7 +1458,14 @@ export class ModuleFederationIsolationPlugin {
           const loaderModuleRelativePath = this.normalizePath(
             path.relative(path.dirname(loaderPackageJsonPath), loader.loader)
           )
-          const loaderOptions = loader.options ? `?${JSON.stringify(loader.options)}` : '!'
+          const loaderOptions = loader.options
+            ? `?${this.getLoaderIdentity(
+                loaderPackageInfo.name,
+                loader.options,
+                rootProjectPackageJsonPath,
+                packageInfoByPackageJsonPath
+              )}`
+            : '!'
           return `${loaderPackageInfo.name}@${loaderModuleRelativePath}${loaderOptions}`
         })
         .filter(Boolean)
@@ -485,11 +1475,63 @@ export class ModuleFederationIsolationPlugin {
     )
   }
 
+  getManifestAsset(remoteEntryName: string, manifest: Manifest): IsolationManifestAsset {
+    return {
+      version: ISOLATION_MANIFEST_VERSION,
+      name: remoteEntryName,
+      packages: manifest.packages,
+      consumeSharedRedirection: manifest.consumeSharedRedirection,
+      providedModuleChunks: manifest.providedModuleChunks,
+    }
+  }
+
+  getLazyManifestAsset(compilation: Compilation, manifest: Manifest): { filename: string; content: string } {
+    const { pre, pkg } = getSizeOptimizedManifest(manifest)
+    const lazyManifest: LazySizeOptimizedManifest = { pre, pkg }
+    const content = JSON.stringify(lazyManifest)
+
+    return { filename: LAZY_MANIFEST_FILENAME.replace('[contenthash]', getHash(compilation, content)), content }
+  }
+
+  getRemoteEntryAssetFilename(remoteEntry: RemoteEntryInfo, filename: string): string {
+    return path.posix.join(
+      path.posix.dirname(this.normalizePath(remoteEntry.filename)),
+      filename.replace(/\[name\]/g, remoteEntry.name)
+    )
+  }
+
+  emitManifestAssets(compilation: Compilation, manifest: Manifest): void {
+    if (!this.options.manifestFilename) {
+      return
+    }
+
+    this.appliedRemoteEntries.forEach((remoteEntry) => {
+      compilation.emitAsset(
+        this.getRemoteEntryAssetFilename(remoteEntry, this.options.manifestFilename),
+        new compilation.compiler.webpack.sources.RawSource(
+          JSON.stringify(this.getManifestAsset(remoteEntry.name, manifest), null, 2)
+        )
+      )
+    })
+  }
+
+  emitReportAssets(compilation: Compilation, report: IsolationReport): void {
+    this.appliedRemoteEntries.forEach((remoteEntry) => {
+      compilation.emitAsset(
+        this.getRemoteEntryAssetFilename(remoteEntry, this.options.reportFilename),
+        new compilation.compiler.webpack.sources.RawSource(renderIsolationReport(remoteEntry.name, report))
+      )
+    })
+  }
+
   gatherModuleInfoAndAttachToRuntime(compiler: Compiler): void {
-    compiler.hooks.compilation.tap(PLUGIN_NAME, (compilation) => {
+    // Hint: child compilations (e.g. of html-webpack-plugin) don't run federation and emit to the same output
+    // directory, so their assets would conflict with the ones of the remote
+    compiler.hooks.thisCompilation.tap(PLUGIN_NAME, (compilation) => {
       const manifest: Manifest = {
         packages: {},
         consumeSharedRedirection: {},
+        providedModuleChunks: {},
       }
       const packageInfoByPackageJsonPath: Record<string, PackageInfo> = {}
       const rootProjectPackageJsonPath = this.normalizePath(path.join(compiler.context, 'package.json'))
@@ -497,30 +1539,53 @@ export class ModuleFederationIsolationPlugin {
         string,
         Record<string, { used: string; ignored: Set<string> }>
       > = {}
+      const packageVersionByModule: Map<Module, [string, string]> = new Map()
+      const ignoredDuplicates: IsolationReportIgnoredDuplicate[] = []
+      let isolationReport: IsolationReport | null = null
+      const getIsolationReport = () =>
+        (isolationReport =
+          isolationReport ?? this.getIsolationReport(compilation, manifest, packageVersionByModule, ignoredDuplicates))
+
+      const gatherModuleInfo = () => {
+        const reachableModules = this.options.manifestPruning
+          ? this.getModulesReachableFromSharedModules(compilation)
+          : null
+        const unreachableModuleIds: Set<WebpackModuleId> = new Set()
 
-      compilation.hooks.afterOptimizeModuleIds.tap(PLUGIN_NAME, () => {
         compilation.modules.forEach((module) => {
           const moduleId = compilation.chunkGraph.getModuleId(module)
           if (moduleId === null) {
             return
           }
 
-          if (module.constructor.name === 'ConsumeSharedModule') {
+          // Hint: concatenated modules take over the connections of their root module, so reachability is checked
+          // before unwrapping them
+          if (reachableModules && !reachableModules.has(module)) {
+            unreachableModuleIds.add(moduleId)
+          }
+
+          if (isConsumeSharedModule(module)) {
             manifest.consumeSharedRedirection[moduleId] = {
               providedModuleId: this.getProvidedModuleIdForSharedModule(module, compilation),
             }
+            const shareKey = this.getShareKeyForConsumeSharedModule(module)
+            if (shareKey && this.isSingletonConsumeSharedModule(module)) {
+              manifest.consumeSharedRedirection[moduleId].singletonShareKey = shareKey
+            }
             return
           }
 
-          while (module.constructor.name === 'ConcatenatedModule') {
-            module = (module as ConcatenatedModule).rootModule
+          const outerModule = module
+          while (isConcatenatedModule(module)) {
+            module = module.rootModule
           }
 
-          if (module.constructor.name !== 'NormalModule') {
+          if (!isNormalModule(module)) {
             return
           }
 
-          const normalModule = module as NormalModule
+          const normalModule = module
+          this.addDescriptionFileFromResolveData(normalModule)
           const moduleFullPath = normalModule.resourceResolveData?.path
           if (!moduleFullPath) {
             return
@@ -544,13 +1609,18 @@ export class ModuleFederationIsolationPlugin {
             return
           }
 
-          let moduleRelativePath = this.normalizePath(
+          const moduleFileRelativePath = this.normalizePath(
             path.relative(path.dirname(associatedPackageJsonPath), moduleFullPath)
           )
+          let moduleRelativePath = moduleFileRelativePath
 
           const moduleFullId = normalModule.identifier()
           if (moduleFullId.includes('!')) {
-            const loaderQuery = this.getLoaderQueryForNormalModule(normalModule, packageInfoByPackageJsonPath)
+            const loaderQuery = this.getLoaderQueryForNormalModule(
+              normalModule,
+              rootProjectPackageJsonPath,
+              packageInfoByPackageJsonPath
+            )
             moduleRelativePath = `${moduleRelativePath}?${loaderQuery}`
           }
 
@@ -559,6 +1629,7 @@ export class ModuleFederationIsolationPlugin {
             moduleRelativePath += normalModule.resourceResolveData.query
           }
 
+          packageVersionByModule.set(outerModule, [packageInfo.name, packageInfo.version])
           if (!manifest.packages[packageInfo.name]) {
             manifest.packages[packageInfo.name] = {}
             packageJsonPathByPackageNameAndVersion[packageInfo.name] = {}
@@ -584,7 +1655,18 @@ export class ModuleFederationIsolationPlugin {
             return
           }
 
-          manifest.packages[packageInfo.name][packageInfo.version].modulePathToModuleId[moduleRelativePath] = moduleId
+          const modulePathToModuleId = manifest.packages[packageInfo.name][packageInfo.version].modulePathToModuleId
+          modulePathToModuleId[moduleRelativePath] = moduleId
+
+          if (this.options.moduleIdentity === ModuleIdentity.Export) {
+            // Export paths keep the loaders and query of the module, so they only match modules built the same way
+            const moduleSuffix = moduleRelativePath.slice(moduleFileRelativePath.length)
+            this.getExportPathsForModule(compilation, outerModule, packageInfo.name).forEach((exportPath) => {
+              if (!(`${exportPath}${moduleSuffix}` in modulePathToModuleId)) {
+                modulePathToModuleId[`${exportPath}${moduleSuffix}`] = moduleId
+              }
+            })
+          }
         })
 
         Object.values(packageInfoByPackageJsonPath).forEach(({ name, version, rangesIn }) => {
@@ -596,73 +1678,228 @@ export class ModuleFederationIsolationPlugin {
           existingEntry.semverRangesIn = [...new Set([...existingEntry.semverRangesIn, ...rangesIn])]
         })
 
-        if (stateStrategyToRuntimeStateStrategy[StateStrategy.Isolate] < this.maximumRuntimeStateStrategyRequired) {
-          Object.entries(packageJsonPathByPackageNameAndVersion).forEach(([packageName, versions]) => {
-            Object.entries(versions).forEach(([version, { used, ignored }]) => {
-              if (ignored.size) {
-                compilation.warnings.push(
-                  new WebpackError(
-                    Template.asString([
-                      `multiple instances of package ${packageName}@${version} detected.`,
-                      `When reusing own libraries, only the one found in ${used} will be used.`,
-                      `Ignored: ${[...ignored].join(', ')}`,
-                    ])
-                  )
-                )
-              }
+        Object.entries(packageJsonPathByPackageNameAndVersion).forEach(([packageName, versions]) => {
+          Object.entries(versions).forEach(([version, { used, ignored }]) => {
+            if (!ignored.size) {
+              return
+            }
+
+            ignoredDuplicates.push({
+              packageName,
+              version,
+              used: this.normalizePath(path.relative(compiler.context, used)),
+              ignored: [...ignored].map((ignoredPath) =>
+                this.normalizePath(path.relative(compiler.context, ignoredPath))
+              ),
             })
+            if (stateStrategyToRuntimeStateStrategy[StateStrategy.Isolate] < this.maximumRuntimeStateStrategyRequired) {
+              compilation.warnings.push(
+                new compiler.webpack.WebpackError(
+                  compiler.webpack.Template.asString([
+                    `multiple instances of package ${packageName}@${version} detected.`,
+                    `When reusing own libraries, only the one found in ${used} will be used.`,
+                    `Ignored: ${[...ignored].join(', ')}`,
+                  ])
+                )
+              )
+            }
           })
+        })
+
+        if (unreachableModuleIds.size) {
+          const unprunedManifestSize = Buffer.byteLength(JSON.stringify(getSizeOptimizedManifest(manifest)))
+          this.pruneManifest(manifest, unreachableModuleIds)
+          const prunedManifestSize = Buffer.byteLength(JSON.stringify(getSizeOptimizedManifest(manifest)))
+          compilation
+            .getLogger(PLUGIN_NAME)
+            .info(
+              `Pruned modules unreachable from shared modules from the manifest, saving ${
+                unprunedManifestSize - prunedManifestSize
+              } bytes (${unprunedManifestSize} -> ${prunedManifestSize})`
+            )
         }
-      })
+      }
 
-      compilation.hooks.afterOptimizeChunkIds.tap(PLUGIN_NAME, (chunks) => {
-        for (const chunk of chunks) {
-          if (
-            chunk.hasRuntime() &&
-            (!this.remoteEntriesToApply.size || (chunk.name && this.remoteEntriesToApply.has(chunk.name)))
-          ) {
-            compilation.addRuntimeModule(chunk, new ModuleFederationIsolationInfoModule(manifest))
-          }
+      let lazyManifestAsset: { filename: string; content: string } | null = null
+      const getRuntimeManifest = (): SizeOptimizedManifest => {
+        const sizeOptimizedManifest = getSizeOptimizedManifest(manifest)
+        if (this.options.manifestLoading !== ManifestLoading.Lazy) {
+          return sizeOptimizedManifest
         }
-      })
 
-      compilation.hooks.afterCodeGeneration.tap(PLUGIN_NAME, () => {
+        // Hint: redirections and chunks are needed by every strategy, so only the package data is loaded on demand
+        lazyManifestAsset = lazyManifestAsset ?? this.getLazyManifestAsset(compilation, manifest)
+        return {
+          pre: [],
+          pkg: {},
+          red: sizeOptimizedManifest.red,
+          chk: sizeOptimizedManifest.chk,
+          lzy: lazyManifestAsset.filename,
+        }
+      }
+
+      // Hint: chunks loaded by Node.js are read from the file system, which is where the lazy manifest is read from too
+      const { chunkLoading } = compilation.outputOptions
+      const readsLazyManifestFromFileSystem = chunkLoading === 'require' || chunkLoading === 'async-node'
+
+      const addIsolationRuntimeRequirements = (runtimeRequirements: Set<string>) => {
+        // Hint: the runtime plugin instantiates modules by itself, which needs the module cache and factories to be
+        // exposed by the runtime regardless of the output format (e.g. with `output.module`)
+        runtimeRequirements.add(compiler.webpack.RuntimeGlobals.moduleCache)
+        runtimeRequirements.add(compiler.webpack.RuntimeGlobals.moduleFactories)
+        if (this.options.manifestLoading === ManifestLoading.Lazy && !readsLazyManifestFromFileSystem) {
+          // The lazy manifest is fetched relative to the public path
+          runtimeRequirements.add(compiler.webpack.RuntimeGlobals.publicPath)
+        }
+      }
+
+      const gatherChunkInfo = () => {
         compilation.modules.forEach((module) => {
-          if (module.constructor.name === 'ProvideSharedModule') {
-            const codeGenerationResult = compilation.codeGenerationResults.getData(
-              module,
-              undefined,
-              'share-init-option'
-            )
-            if (!codeGenerationResult || !codeGenerationResult.getter) {
-              return
-            }
+          if (!isProvideSharedModule(module)) {
+            return
+          }
 
-            const providedModuleId = this.getProvidedModuleIdForSharedModule(module, compilation)
-            if (providedModuleId === null) {
-              return
+          const providedModuleId = this.getProvidedModuleIdForSharedModule(module, compilation)
+          const chunkIds = this.getLoadableChunkIdsForProvidedModule(module, compilation)
+          if (providedModuleId !== null && chunkIds.length) {
+            manifest.providedModuleChunks[providedModuleId] = chunkIds
+          }
+        })
+      }
+
+      const shouldAttachToChunk = (chunk: Chunk) =>
+        chunk.hasRuntime() &&
+        (!this.remoteEntriesToApply.size || (chunk.name && this.remoteEntriesToApply.has(chunk.name)))
+
+      if (isRspackCompiler(compiler)) {
+        // Hint: Rspack doesn't expose the module and chunk ID hooks, but IDs are already assigned by the time
+        // runtime requirements are processed
+        let moduleInfoGathered = false
+        compilation.hooks.additionalTreeRuntimeRequirements.tap(PLUGIN_NAME, (chunk, runtimeRequirements) => {
+          if (!moduleInfoGathered) {
+            moduleInfoGathered = true
+            gatherModuleInfo()
+            gatherChunkInfo()
+          }
+
+          if (shouldAttachToChunk(chunk)) {
+            addIsolationRuntimeRequirements(runtimeRequirements)
+            compilation.addRuntimeModule(
+              chunk,
+              createModuleFederationIsolationInfoModule(
+                compiler.webpack,
+                getRuntimeManifest,
+                readsLazyManifestFromFileSystem
+              )
+            )
+          }
+        })
+      } else {
+        compilation.hooks.afterOptimizeModuleIds.tap(PLUGIN_NAME, gatherModuleInfo)
+        compilation.hooks.afterOptimizeChunkIds.tap(PLUGIN_NAME, (chunks) => {
+          gatherChunkInfo()
+          for (const chunk of chunks) {
+            if (shouldAttachToChunk(chunk)) {
+              compilation.addRuntimeModule(
+                chunk,
+                createModuleFederationIsolationInfoModule(
+                  compiler.webpack,
+                  getRuntimeManifest,
+                  readsLazyManifestFromFileSystem
+                )
+              )
             }
+          }
+        })
+        compilation.hooks.additionalTreeRuntimeRequirements.tap(PLUGIN_NAME, (chunk, runtimeRequirements) => {
+          if (shouldAttachToChunk(chunk)) {
+            addIsolationRuntimeRequirements(runtimeRequirements)
+          }
+        })
+      }
 
-            const wrappedGetter = Template.asString([
-              `(function() {`,
-              Template.indent([
-                `var originalGetter = ${codeGenerationResult.getter};`,
-                `originalGetter.providedModuleId = ${JSON.stringify(providedModuleId)};`,
-                `return originalGetter;`,
-              ]),
-              `})()`,
-            ])
-            codeGenerationResult.getter = wrappedGetter
+      compilation.hooks.processAssets.tap(
+        { name: PLUGIN_NAME, stage: compiler.webpack.Compilation.PROCESS_ASSETS_STAGE_ADDITIONAL },
+        () => {
+          this.emitManifestAssets(compilation, manifest)
+          if (this.options.reportFilename) {
+            this.emitReportAssets(compilation, getIsolationReport())
+          }
+          // Hint: the lazy manifest is only computed when a runtime chunk embeds the isolation info
+          if (lazyManifestAsset) {
+            compilation.emitAsset(
+              lazyManifestAsset.filename,
+              new compiler.webpack.sources.RawSource(lazyManifestAsset.content),
+              { immutable: true }
+            )
           }
+        }
+      )
+
+      // Hint: Rspack doesn't support extending the stats with plugins
+      if (!isRspackCompiler(compiler)) {
+        compilation.hooks.statsFactory.tap(PLUGIN_NAME, (statsFactory, statsOptions) => {
+          // Hint: building the report walks the module graph, so it's only added when asked for, either with the
+          // `isolation` option of `stats.toJson()` or with `all: true`
+          if (!(statsOptions.isolation ?? statsOptions.all === true)) {
+            return
+          }
+
+          statsFactory.hooks.extract
+            .for('compilation')
+            .tap(PLUGIN_NAME, (object: Record<string, unknown>, statsCompilation: Compilation) => {
+              // Hint: child compilations are extracted with the same factory, but don't run the isolation
+              if (statsCompilation === compilation) {
+                object.isolation = getIsolationReport()
+              }
+            })
         })
-      })
+      }
+
+      // Hint: Rspack doesn't expose code generation results, so the runtime falls back to matching module exports
+      // to find out the provided module IDs
+      if (!isRspackCompiler(compiler)) {
+        compilation.hooks.afterCodeGeneration.tap(PLUGIN_NAME, () => {
+          compilation.modules.forEach((module) => {
+            if (isProvideSharedModule(module)) {
+              const codeGenerationResult = compilation.codeGenerationResults?.getData(
+                module,
+                undefined,
+                'share-init-option'
+              )
+              if (!codeGenerationResult || !codeGenerationResult.getter) {
+                return
+              }
+
+              const providedModuleId = this.getProvidedModuleIdForSharedModule(module, compilation)
+              if (providedModuleId === null) {
+                return
+              }
+
+              const wrappedGetter = compiler.webpack.Template.asString([
+                `(function() {`,
+                compiler.webpack.Template.indent([
+                  `var originalGetter = ${codeGenerationResult.getter};`,
+                  `originalGetter.providedModuleId = ${JSON.stringify(providedModuleId)};`,
+                  `return originalGetter;`,
+                ]),
+                `})()`,
+              ])
+              codeGenerationResult.getter = wrappedGetter
+            }
+          })
+        })
+      }
     })
   }
 
   apply(compiler: Compiler): void {
+    this.inputFileSystem = compiler.inputFileSystem
+    this.clearCompilationCaches(compiler)
     this.disableConflictingConfiguration(compiler)
     this.setRuntimeVerbosity(compiler)
     this.injectRuntimePlugins(compiler)
     this.gatherModuleInfoAndAttachToRuntime(compiler)
+    this.reportDuplicatedSingletons(compiler)
   }
 }
@@ -0,0 +1,137 @@
+import type { IsolationManifestAsset, StateStrategy } from './ModuleFederationIsolationPlugin'
+
+export type IsolationReportPackageVersion = {
+  semverRangesIn: string[]
+  // Module paths listed in the manifest, so that they can be translated to the modules of other hosts
+  translatableModulePaths: string[]
+  // Share keys of the consumed shared dependencies whose subtree includes modules of this package version
+  sharedThrough: string[]
+}
+
+export type IsolationReportSharedDependency = {
+  singleton: boolean
+  stateStrategy: StateStrategy
+  // Origin host name -> strategy, overriding the above when the dependency is provided by that host
+  origins: Record<string, StateStrategy>
+}
+
+export type IsolationReportIgnoredDuplicate = {
+  packageName: string
+  version: string
+  // Description files relative to the compiler context
+  used: string
+  ignored: string[]
+}
+
+/**
+ * Isolation data of a compilation, added to its stats as `isolation` and rendered by the HTML report
+ */
+export type IsolationReport = {
+  packages: Record<string, Record<string, IsolationReportPackageVersion>>
+  // Share key -> strategy applied when consuming it
+  sharedDependencies: Record<string, IsolationReportSharedDependency>
+  consumeSharedRedirection: IsolationManifestAsset['consumeSharedRedirection']
+  ignoredDuplicates: IsolationReportIgnoredDuplicate[]
+}
+
+const REPORT_STYLE = [
+  'body{font-family:system-ui,sans-serif;margin:2rem;color:#1f2328}',
+  'table{border-collapse:collapse;margin:.5rem 0 1.5rem}',
+  'th,td{border:1px solid #d0d7de;padding:.25rem .5rem;text-align:left;vertical-align:top}',
+  'th{background:#f6f8fa}',
+  'code{font-size:.85em}',
+  'details{margin:.25rem 0}',
+  '.use-origin{color:#1a7f37}.isolate{color:#9a6700}.reuse-own{color:#0969da}',
+].join('')
+
+function escapeHtml(value: string): string {
+  return value.replace(/[&<>"']/g, (character) => `&#${character.charCodeAt(0)};`)
+}
+
+function renderList(values: string[]): string {
+  return values.length ? values.map((value) => `<code>${escapeHtml(value)}</code>`).join('<br>') : '-'
+}
+
+function renderStateStrategies(sharedDependency: IsolationReportSharedDependency): string {
+  const renderStateStrategy = (stateStrategy: StateStrategy) =>
+    `<span class="${stateStrategy}">${escapeHtml(stateStrategy)}</span>`
+
+  return [
+    renderStateStrategy(sharedDependency.stateStrategy),
+    ...Object.entries(sharedDependency.origins).map(
+      ([originHost, stateStrategy]) => `${renderStateStrategy(stateStrategy)} from ${escapeHtml(originHost)}`
+    ),
+  ].join('<br>')
+}
+
+function renderSharedDependencies(report: IsolationReport): string {
+  const rows = Object.entries(report.sharedDependencies).map(
+    ([shareKey, sharedDependency]) =>
+      `<tr><td><code>${escapeHtml(shareKey)}</code></td><td>${
+        sharedDependency.singleton ? 'yes' : 'no'
+      }</td><td>${renderStateStrategies(sharedDependency)}</td></tr>`
+  )
+
+  return `<h2>Shared dependencies</h2><table><tr><th>Share key</th><th>Singleton</th><th>Strategy</th></tr>${rows.join(
+    ''
+  )}</table>`
+}
+
+function renderPackages(report: IsolationReport): string {
+  const rows = Object.entries(report.packages).flatMap(([packageName, versions]) =>
+    Object.entries(versions).map(([version, packageVersion]) => {
+      const strategies = packageVersion.sharedThrough.map((shareKey) => {
+        const sharedDependency = report.sharedDependencies[shareKey]
+        return `<code>${escapeHtml(shareKey)}</code>: ${
+          sharedDependency ? renderStateStrategies(sharedDependency) : '-'
+        }`
+      })
+
+      return [
+        `<tr><td><code>${escapeHtml(packageName)}@${escapeHtml(version)}</code></td>`,
+        `<td>${renderList(packageVersion.semverRangesIn)}</td>`,
+        `<td>${strategies.length ? strategies.join('<br>') : 'not reached by consumed shared dependencies'}</td>`,
+        `<td><details><summary>${packageVersion.translatableModulePaths.length} module(s)</summary>`,
+        `${renderList(packageVersion.translatableModulePaths)}</details></td></tr>`,
+      ].join('')
+    })
+  )
+
+  return `<h2>Packages</h2><table><tr><th>Package</th><th>Requested ranges</th><th>Strategy</th><th>Translatable modules</th></tr>${rows.join(
+    ''
+  )}</table>`
+}
+
+function renderIgnoredDuplicates(report: IsolationReport): string {
+  if (!report.ignoredDuplicates.length) {
+    return ''
+  }
+
+  const rows = report.ignoredDuplicates.map(
+    ({ packageName, version, used, ignored }) =>
+      `<tr><td><code>${escapeHtml(packageName)}@${escapeHtml(version)}</code></td><td>${renderList([
+        used,
+      ])}</td><td>${renderList(ignored)}</td></tr>`
+  )
+
+  return `<h2>Ignored duplicate package instances</h2><table><tr><th>Package</th><th>Used</th><th>Ignored</th></tr>${rows.join(
+    ''
+  )}</table>`
+}
+
+/**
+ * Renders the isolation report of a remote as a self-contained HTML document
+ */
+export function renderIsolationReport(remoteEntryName: string, report: IsolationReport): string {
+  const title = `Isolation report of ${escapeHtml(remoteEntryName)}`
+
+  return [
+    '<!DOCTYPE html>',
+    `<html><head><meta charset="utf-8"><title>${title}</title><style>${REPORT_STYLE}</style></head><body>`,
+    `<h1>${title}</h1>`,
+    renderSharedDependencies(report),
+    renderPackages(report),
+    renderIgnoredDuplicates(report),
+    '</body></html>',
+  ].join('\n')
+}
@@ -1,7 +1,9 @@
 import semverSatisfies from 'semver/functions/satisfies'
 import type {
+  LazySizeOptimizedManifest,
   SizeOptimizedManifest,
   SizeOptimizedSharedModuleRedirection,
+  WebpackChunkId,
   WebpackModuleId,
 } from './ModuleFederationIsolationPlugin'
 
@@ -20,15 +22,32 @@ export const enum RuntimeVerbosity {
   Debug = 10,
 }
 
+export type RuntimeSharedDependencyOptions = {
+  stateStrategy: RuntimeStateStrategy
+  // Origin host name -> options, for dependencies provided by that host
+  origins?: Record<string, { stateStrategy: RuntimeStateStrategy }>
+}
+
+export type RuntimeSharedDependencyPattern = {
+  source: string
+  flags: string
+  options: RuntimeSharedDependencyOptions
+}
+
+export type RuntimeStateStrategyName = 'use-origin' | 'isolate' | 'reuse-own'
+
 export type RuntimePluginOptions = {
   stateStrategy: RuntimeStateStrategy
-  sharedDependencies: Record<
-    string,
-    {
-      stateStrategy: RuntimeStateStrategy
-    }
-  >
+  // Share key -> options, for exact share keys
+  sharedDependencies: Record<string, RuntimeSharedDependencyOptions>
+  // Patterns matched against the share key when there is no exact match, sorted by precedence
+  sharedDependencyPatterns: RuntimeSharedDependencyPattern[]
+  isolationGroup: string
   runtimeVerbosity: RuntimeVerbosity
+  // Highest strategy the build is prepared for, which caps the strategies picked at runtime
+  maximumStateStrategy: RuntimeStateStrategy
+  // Use the origin instance of singleton shared dependencies unless a rule explicitly applies to them
+  respectSingletons: boolean
 }
 
 declare global {
@@ -42,28 +61,206 @@ type WebpackModule<T = unknown> = {
   id: WebpackModuleId
   loaded: boolean
   exports: T
+  // Only present when hot module replacement is enabled
+  hot?: WebpackHotModule
+  children?: WebpackModuleId[]
+  // Only present for isolated instances when hot module replacement is enabled
+  [DISPOSE_HANDLERS_KEY]?: WebpackHotDisposeHandler[]
+}
+
+type WebpackHotDisposeHandler = (data: Record<string, unknown>) => void
+
+type WebpackHotModule = {
+  invalidate: () => void
+  status: () => string
+  apply: (options?: { ignoreUnaccepted?: boolean }) => Promise<unknown>
+  dispose: (handler: WebpackHotDisposeHandler) => void
+  addDisposeHandler: (handler: WebpackHotDisposeHandler) => void
+  removeDisposeHandler: (handler: WebpackHotDisposeHandler) => void
+}
+
+// Registered by the hot module replacement runtime for every chunk format, called when downloading an update. Apply
+// handlers run once the update is applied, after every module to update is listed
+type WebpackHotDownloadUpdateHandler = (
+  chunkIds: WebpackChunkId[],
+  removedChunks: WebpackChunkId[],
+  removedModules: WebpackModuleId[],
+  promises: Promise<unknown>[],
+  applyHandlers: ((options: unknown) => { dispose?: () => void; apply?: () => void })[],
+  updatedModules: WebpackModuleId[]
+) => void
+
+// Hint: webpack keeps the dispose handlers of a module private, so the ones of isolated instances are recorded when
+// registered. Instances may be disposed by the copy of the runtime plugin of another remote, hence the global symbol
+const DISPOSE_HANDLERS_KEY: unique symbol = Symbol.for('module-federation-isolation-plugin/dispose-handlers')
+
+export type RuntimeUniversalModule = {
+  pkgName: string
+  pkgVersion: string
+  modulePath: string
+  // Export specifiers the module was imported through, as `<specifier>|<condition>|<exports type>` plus loaders and
+  // query
+  exportPaths: string[]
 }
 
 type RuntimeManifest = Omit<SizeOptimizedManifest, 'red'> & {
   red: Record<
     WebpackModuleId,
-    {
-      mid: SizeOptimizedSharedModuleRedirection['mid']
+    SizeOptimizedSharedModuleRedirection & {
       webpackRequire: WebpackRequire | undefined
     }
   >
-  midToUid: Record<WebpackModuleId, { pkgName: string; pkgVersion: string; modulePath: string }>
+  midToUid: Record<WebpackModuleId, RuntimeUniversalModule>
   pkgVersions: Record<string, [string, string[]][]>
   pkgMatch: Record<string, Record<string, string | null>>
+  namespaces: Record<string, RuntimeIsolationNamespace>
+  // Origin module ID -> isolation namespaces with instances of it, only tracked when hot module replacement is enabled
+  hotDependents: Record<WebpackModuleId, [WebpackRequire, string][]>
   hostName: string
   initiated?: boolean
+  // Only present when `pre` and `pkg` are loaded lazily, settles once they are decoded or could not be loaded
+  lzyLoading?: Promise<void>
+  // Only present for chunks loaded by Node.js, reads the lazy manifest from the file system instead of fetching it
+  lzyRead?: (filename: string) => Promise<LazySizeOptimizedManifest>
+  getSnapshot: () => IsolationSnapshot
+  dispose: (isolationNamespace: string, options?: IsolationDisposeOptions) => boolean
+  disposeOriginHost: (originHost: string, options?: IsolationDisposeOptions) => void
+}
+
+type RuntimeIsolationTranslation = Omit<IsolationSnapshotTranslation, 'instantiated'> & {
+  // Whether the instance was created from the origin factory, as opposed to an own module reused as is
+  isolated: boolean
+}
+
+type RuntimeIsolationNamespace = {
+  strategy: RuntimeStateStrategy
+  translations: Record<string, RuntimeIsolationTranslation>
+  // Consume shared modules whose factory instantiates modules of this namespace, along with the require of their host
+  consumers: [WebpackRequire, WebpackModuleId][]
+}
+
+export type IsolationSnapshot = {
+  hostName: string
+  namespaces: IsolationSnapshotNamespace[]
+  // Origin host name -> origin package universal ID -> own package version used for it, null if isolated
+  packageMatches: Record<string, Record<string, string | null>>
+  redirections: IsolationSnapshotRedirection[]
+}
+
+export type IsolationSnapshotNamespace = {
+  namespace: string
+  strategy: RuntimeStateStrategyName
+  translations: IsolationSnapshotTranslation[]
+}
+
+export type IsolationSnapshotTranslation = {
+  originHost: string
+  originModuleId: WebpackModuleId
+  ownModuleId: WebpackModuleId
+  instantiated: boolean
+}
+
+export type IsolationSnapshotRedirection = {
+  consumeSharedModuleId: WebpackModuleId
+  originHost: string | null
+  originModuleId: WebpackModuleId | null
+}
+
+export type ResolveShareHookEvent = {
+  ownHost: string
+  originHost: string
+  pkgName: string
+  version: string
+  stateStrategy: RuntimeStateStrategyName
+}
+
+export type TranslateHookEvent = {
+  isolationNamespace: string
+  originHost: string
+  originModuleId: WebpackModuleId
+  ownModuleId: WebpackModuleId
+}
+
+export type PackageMatchHookEvent = {
+  isolationNamespace: string
+  originHost: string
+  pkgName: string
+  originPackageVersion: string
+  // Null when the origin package is isolated
+  ownPackageVersion: string | null
+}
+
+export type FallbackHookEvent = {
+  ownHost: string
+  originHost: string
+  pkgName: string
+  version: string
+  // Why the original shared module is used as is
+  reason: string
+}
+
+export type RuntimeHookEvents = {
+  // A shared dependency is resolved, before anything is loaded
+  onResolveShare: ResolveShareHookEvent
+  // A new instance of an origin module is created in the own host
+  onTranslate: TranslateHookEvent
+  // An origin package is translated to an already loaded own package when reusing own modules
+  onReuseOwn: PackageMatchHookEvent
+  // An origin package is stored in the place of a not yet loaded own package when reusing own modules
+  onStoreOrigin: PackageMatchHookEvent
+  // No own package can be used for an origin package when reusing own modules, so it's isolated
+  onIsolate: PackageMatchHookEvent
+  // The original shared module is used because the isolation can't be applied
+  onFallback: FallbackHookEvent
+}
+
+export type StateStrategyRequest = {
+  ownHost: string
+  originHost: string
+  pkgName: string
+  version: string
+  // Share configuration of the own consume shared module, if it could be identified
+  shareConfig: FederationRuntimeSharedConfig | undefined
+  // Strategy configured at build time for the shared dependency
+  stateStrategy: RuntimeStateStrategyName
+}
+
+type RuntimeEventHooks = {
+  [HookName in keyof RuntimeHookEvents]?: (event: RuntimeHookEvents[HookName]) => void
+}
+
+/**
+ * Callbacks exported by the module set in the `runtimeHooks` option, either as named exports or as properties of
+ * the default export
+ */
+export type RuntimeHooks = RuntimeEventHooks & {
+  // Picks the strategy of a shared dependency at runtime. Returning undefined keeps the configured one
+  resolveStateStrategy?: (request: StateStrategyRequest) => RuntimeStateStrategyName | undefined
+}
+
+type RuntimeHookEmitter = <HookName extends keyof RuntimeHookEvents>(
+  hookName: HookName,
+  event: RuntimeHookEvents[HookName]
+) => void
+
+// Tells whether a singleton shared dependency provided by the origin host must not be translated
+type SingletonPredicate = (shareKey: string, originHost: string) => boolean
+
+export type IsolationDisposeOptions = {
+  // Calls the `module.hot.dispose` handlers of the disposed instances, only registered with hot module replacement
+  runDisposeHandlers?: boolean
 }
 
 type WebpackRequire = {
   (moduleId: WebpackModuleId): WebpackModule['exports']
   c: Record<WebpackModuleId, WebpackModule>
   m: Record<WebpackModuleId, WebpackModuleFactory>
+  p: string
+  // Only present when the host has chunks loaded on demand
+  e?: (chunkId: WebpackChunkId) => Promise<unknown>
   federation: FederationRuntime
+  // Only present when hot module replacement is enabled
+  hmrC?: Record<string, WebpackHotDownloadUpdateHandler>
 }
 
 type FederationRuntime = {
@@ -90,7 +287,7 @@ interface FederationRuntimeShareInfo {
   scope: string[]
 }
 
-interface FederationRuntimeSharedConfig {
+export interface FederationRuntimeSharedConfig {
   singleton?: boolean
   requiredVersion: false | string
   eager?: boolean
@@ -115,6 +312,12 @@ interface FederationRuntimeDependency {
   get: FederationRuntimeDependencyGetter
 }
 
+// Version 2 of the federation runtime resolves shared dependencies along with their tree shaking mode
+interface FederationRuntimeSharedResolution {
+  shared: FederationRuntimeDependency
+  useTreesShaking?: boolean
+}
+
 type FederationRuntimeHost = {
   name: string
   shareScopeMap: FederationRuntimeHostShareScopeMap
@@ -133,15 +336,21 @@ interface FederationRuntimeBeforeInitArgs {
   origin: FederationRuntimeHost
 }
 
+// Version 2 of the federation runtime tells which consume shared module is loading a shared dependency
+interface FederationRuntimeLoadContext {
+  moduleId?: WebpackModuleId
+}
+
 interface FederationRuntimeBeforeLoadShareArgs {
   origin: FederationRuntimeHost
   shareInfo: FederationRuntimeShareInfo
+  loadContext?: FederationRuntimeLoadContext
 }
 
 interface FederationRuntimeResolveShareArgs {
   pkgName: string
   version: string
-  resolver: () => FederationRuntimeDependency
+  resolver: () => FederationRuntimeDependency | FederationRuntimeSharedResolution | undefined
   scope: string
   GlobalFederation: {
     __INSTANCES__: ExtendedFederationHost[]
@@ -161,7 +370,59 @@ type ExtendedFederationHost = {
   __webpack_require__: WebpackRequire
 }
 
-function initiateRuntimeManifestIfPresent(ownRequire: WebpackRequire): void {
+function invalidateIsolatedInstances(
+  originRequire: WebpackRequire,
+  originModuleId: WebpackModuleId,
+  log: (verbosity: RuntimeVerbosity, message: string) => void
+): void {
+  const hotDependents = originRequire.federation.isolation.hotDependents[originModuleId]
+  if (!hotDependents) {
+    return
+  }
+  delete originRequire.federation.isolation.hotDependents[originModuleId]
+
+  const hotModulesToApply = new Map<WebpackRequire, WebpackHotModule>()
+  hotDependents.forEach(([ownRequire, isolationNamespace]) => {
+    const namespace = ownRequire.federation.isolation.namespaces[isolationNamespace]
+    if (!namespace) {
+      return
+    }
+
+    // Any instance of the namespace may hold a reference to the updated module, so all of them are re-instantiated
+    disposeIsolatedInstances(ownRequire, isolationNamespace, namespace, { runDisposeHandlers: true })
+    log(
+      RuntimeVerbosity.Debug,
+      `[${isolationNamespace}] Invalidated isolated instances as ${originModuleId} was updated`
+    )
+
+    // Webpack does not know about isolated instances, so the update is propagated from the modules importing them
+    namespace.consumers.forEach(([consumerRequire, consumeSharedModuleId]) => {
+      Object.values(consumerRequire.c).forEach((module) => {
+        if (module.hot && module.children?.some((childModuleId) => `${childModuleId}` === `${consumeSharedModuleId}`)) {
+          module.hot.invalidate()
+          hotModulesToApply.set(consumerRequire, module.hot)
+        }
+      })
+    })
+  })
+
+  hotModulesToApply.forEach((hotModule, consumerRequire) => {
+    // Hint: when the consumer is applying an update itself, the invalidation is queued and applied by webpack
+    if (hotModule.status() === 'ready') {
+      hotModule.apply().catch((error) => {
+        log(
+          RuntimeVerbosity.Warnings,
+          `[mfi/${consumerRequire.federation.isolation.hostName}] Could not apply update of isolated instances, a full reload may be needed: ${error}`
+        )
+      })
+    }
+  })
+}
+
+function initiateRuntimeManifestIfPresent(
+  ownRequire: WebpackRequire,
+  log: (verbosity: RuntimeVerbosity, message: string) => void
+): void {
   if (!ownRequire.federation.isolation || ownRequire.federation.isolation.initiated) {
     return
   }
@@ -171,7 +432,28 @@ function initiateRuntimeManifestIfPresent(ownRequire: WebpackRequire): void {
   manifest.midToUid = {}
   manifest.pkgVersions = {}
   manifest.pkgMatch = {}
+  manifest.namespaces = {}
+  manifest.hotDependents = {}
+  manifest.getSnapshot = () => getIsolationSnapshot(ownRequire)
+  manifest.dispose = (isolationNamespace, options) => disposeIsolationNamespace(isolationNamespace, options, ownRequire)
+  manifest.disposeOriginHost = (originHost, options) => disposeIsolationOriginHost(originHost, options, ownRequire)
+
+  if (ownRequire.hmrC) {
+    // Hint: chunks loading modules already loaded by other chunks replace their factories too, so updated modules are
+    // taken from the hot module replacement runtime rather than from the factories being replaced
+    ownRequire.hmrC.isolation = (chunkIds, removedChunks, removedModules, promises, applyHandlers, updatedModules) => {
+      applyHandlers.push(() => ({
+        apply: () => updatedModules.forEach((moduleId) => invalidateIsolatedInstances(ownRequire, moduleId, log)),
+      }))
+    }
+  }
 
+  if (!manifest.lzy) {
+    decodeRuntimeManifestPackages(manifest)
+  }
+}
+
+function decodeRuntimeManifestPackages(manifest: RuntimeManifest): void {
   const { pre, pkg, midToUid, pkgVersions } = manifest
 
   Object.entries(pkg).forEach(([packageName, packageVersions]) => {
@@ -195,19 +477,431 @@ function initiateRuntimeManifestIfPresent(ownRequire: WebpackRequire): void {
           modulePath = `${pre[parseInt(preffix)]}/${suffix}`
           packageData[1][modulePath] = moduleId
         }
-
-        midToUid[moduleId] = {
-          pkgName: packageName,
-          pkgVersion: packageVersion,
-          modulePath,
-        }
       })
+
+      indexPackageVersionModules(packageName, packageVersion, packageData[1], midToUid)
     })
   })
 }
 
+const EXPORT_PATH_REGEXP = /^(\.(?:\/[^|?]*)?)\|([^|?]*)\|([^|?]*)(.*)$/
+
+function parseExportPath(
+  modulePath: string
+): { specifier: string; condition: string; exportsType: string; rest: string } | null {
+  const match = EXPORT_PATH_REGEXP.exec(modulePath)
+  return match ? { specifier: match[1], condition: match[2], exportsType: match[3], rest: match[4] } : null
+}
+
+/**
+ * Tells whether a key of `modulePathToModuleId` is an export path rather than a module path
+ */
+export function isExportPath(modulePath: string): boolean {
+  return EXPORT_PATH_REGEXP.test(modulePath)
+}
+
+/**
+ * Gets the key matching an export path with any condition whose exports are consumed the same way. Consumers of
+ * `namespace` (ESM) and `flagged` (CommonJS with `__esModule`) modules access their exports alike, while `dynamic` and
+ * `default` ones are interoperated differently, so they only match modules of their own exports type
+ */
+function getExportPathAlias(exportPath: string): string | null {
+  const parsedExportPath = parseExportPath(exportPath)
+  if (!parsedExportPath) {
+    return null
+  }
+
+  const exportsTypeFamily = parsedExportPath.exportsType === 'flagged' ? 'namespace' : parsedExportPath.exportsType
+  return `${parsedExportPath.specifier}||${exportsTypeFamily}${parsedExportPath.rest}`
+}
+
+/**
+ * Groups the module path and the export paths of every module of a package version into universal modules, and adds
+ * the aliases of its export paths to `modulePathToModuleId`, so that its modules can be found by `getOwnModuleId`
+ */
+export function indexPackageVersionModules(
+  pkgName: string,
+  pkgVersion: string,
+  modulePathToModuleId: Record<string, WebpackModuleId>,
+  midToUid: Record<WebpackModuleId, RuntimeUniversalModule>
+): void {
+  const exportPathAliases: Record<string, WebpackModuleId> = {}
+  Object.entries(modulePathToModuleId).forEach(([modulePath, moduleId]) => {
+    const universalModule = midToUid[moduleId] ?? { pkgName, pkgVersion, modulePath, exportPaths: [] }
+    const exportPathAlias = getExportPathAlias(modulePath)
+    if (exportPathAlias !== null) {
+      universalModule.exportPaths.push(modulePath)
+      // Hint: aliases let the runtime match the same export of a package across conditions (e.g. its ESM build in one
+      // host and its CommonJS build with `__esModule` in another)
+      if (!(exportPathAlias in exportPathAliases)) {
+        exportPathAliases[exportPathAlias] = moduleId
+      }
+    } else {
+      universalModule.modulePath = modulePath
+    }
+    midToUid[moduleId] = universalModule
+  })
+
+  Object.entries(exportPathAliases).forEach(([exportPathAlias, moduleId]) => {
+    if (!(exportPathAlias in modulePathToModuleId)) {
+      modulePathToModuleId[exportPathAlias] = moduleId
+    }
+  })
+}
+
+/**
+ * Finds the own module matching a universal module. Export paths are tried first, with the same condition and then
+ * with any other one of a compatible exports type, and the module path is only used for modules that are not imported
+ * through the package exports
+ */
+export function getOwnModuleId(
+  ownModulePathToModuleId: Record<string, WebpackModuleId>,
+  universalModule: RuntimeUniversalModule
+): WebpackModuleId | null {
+  for (const exportPath of universalModule.exportPaths) {
+    if (exportPath in ownModulePathToModuleId) {
+      return ownModulePathToModuleId[exportPath]
+    }
+  }
+
+  for (const exportPath of universalModule.exportPaths) {
+    const exportPathAlias = getExportPathAlias(exportPath)
+    if (exportPathAlias !== null && exportPathAlias in ownModulePathToModuleId) {
+      return ownModulePathToModuleId[exportPathAlias]
+    }
+  }
+
+  return ownModulePathToModuleId[universalModule.modulePath] ?? null
+}
+
+/**
+ * Fetches and decodes the package data of a manifest emitted with lazy manifest loading. Failures are only logged,
+ * as untranslatable modules are isolated anyway
+ */
+function loadLazyRuntimeManifest(
+  ownRequire: WebpackRequire,
+  log: (verbosity: RuntimeVerbosity, message: string) => void
+): Promise<void> {
+  const manifest = ownRequire.federation.isolation
+  if (!manifest.lzy) {
+    return Promise.resolve()
+  }
+
+  if (!manifest.lzyLoading) {
+    const { lzy, lzyRead } = manifest
+    const lazyManifestUrl = lzyRead ? lzy : `${ownRequire.p}${lzy}`
+    manifest.lzyLoading = Promise.resolve()
+      .then(() =>
+        lzyRead
+          ? lzyRead(lzy)
+          : fetch(lazyManifestUrl).then((response) => {
+              if (!response.ok) {
+                throw new Error(`HTTP ${response.status}`)
+              }
+              return response.json() as Promise<LazySizeOptimizedManifest>
+            })
+      )
+      .then(({ pre, pkg }) => {
+        manifest.pre = pre
+        manifest.pkg = pkg
+        delete manifest.lzy
+        decodeRuntimeManifestPackages(manifest)
+        log(RuntimeVerbosity.Debug, `[mfi/${manifest.hostName}] Loaded lazy manifest from ${lazyManifestUrl}`)
+      })
+      .catch((error) => {
+        log(
+          RuntimeVerbosity.Warnings,
+          `[mfi/${manifest.hostName}] Could not load lazy manifest from ${lazyManifestUrl}, its modules will be isolated instead of reused: ${error}`
+        )
+      })
+  }
+
+  return manifest.lzyLoading
+}
+
+const runtimeStateStrategyNames: Record<RuntimeStateStrategy, IsolationSnapshotNamespace['strategy']> = {
+  [RuntimeStateStrategy.UseOrigin]: 'use-origin',
+  [RuntimeStateStrategy.Isolate]: 'isolate',
+  [RuntimeStateStrategy.ReuseOwn]: 'reuse-own',
+}
+
+const runtimeStateStrategiesByName: Record<RuntimeStateStrategyName, RuntimeStateStrategy> = {
+  'use-origin': RuntimeStateStrategy.UseOrigin,
+  isolate: RuntimeStateStrategy.Isolate,
+  'reuse-own': RuntimeStateStrategy.ReuseOwn,
+}
+
+// Hint: __webpack_require__ is only defined within a bundle, so the functions exported for bundles can't default to it
+// when called from outside of one
+function getHostRequire(hostRequire: WebpackRequire | undefined, functionName: string): WebpackRequire {
+  const ownRequire = hostRequire ?? (typeof __webpack_require__ !== 'undefined' ? __webpack_require__ : undefined)
+  if (!ownRequire) {
+    throw new Error(`${PLUGIN_NAME}: ${functionName} needs the __webpack_require__ of a host outside of a bundle`)
+  }
+
+  return ownRequire
+}
+
+/**
+ * Returns a structured snapshot of the isolation state of a host, which is also available at runtime as
+ * `__webpack_require__.federation.isolation.getSnapshot()`. The require of the host defaults to the one of the bundle
+ * calling it, so it must be given when called from outside of a bundle
+ */
+export function getIsolationSnapshot(hostRequire?: WebpackRequire): IsolationSnapshot {
+  const ownRequire = getHostRequire(hostRequire, 'getIsolationSnapshot')
+  const manifest = ownRequire.federation.isolation
+
+  return {
+    hostName: manifest.hostName,
+    namespaces: Object.entries(manifest.namespaces).map(([namespace, { strategy, translations }]) => ({
+      namespace,
+      strategy: runtimeStateStrategyNames[strategy],
+      translations: Object.values(translations).map(({ originHost, originModuleId, ownModuleId }) => ({
+        originHost,
+        originModuleId,
+        ownModuleId,
+        instantiated: !!ownRequire.c[ownModuleId],
+      })),
+    })),
+    packageMatches: JSON.parse(JSON.stringify(manifest.pkgMatch)),
+    redirections: Object.entries(manifest.red).map(([consumeSharedModuleId, redirection]) => ({
+      consumeSharedModuleId,
+      originHost: redirection.webpackRequire?.federation.isolation.hostName ?? null,
+      originModuleId: redirection.mid,
+    })),
+  }
+}
+
+function recordDisposeHandlers(module: WebpackModule): void {
+  const hot = module.hot
+  if (!hot) {
+    return
+  }
+
+  const disposeHandlers: WebpackHotDisposeHandler[] = []
+  const { dispose, addDisposeHandler, removeDisposeHandler } = hot
+  module[DISPOSE_HANDLERS_KEY] = disposeHandlers
+  hot.dispose = (handler) => {
+    disposeHandlers.push(handler)
+    dispose.call(hot, handler)
+  }
+  hot.addDisposeHandler = (handler) => {
+    disposeHandlers.push(handler)
+    addDisposeHandler.call(hot, handler)
+  }
+  hot.removeDisposeHandler = (handler) => {
+    const index = disposeHandlers.indexOf(handler)
+    if (index !== -1) {
+      disposeHandlers.splice(index, 1)
+    }
+    removeDisposeHandler.call(hot, handler)
+  }
+}
+
+function disposeIsolatedInstances(
+  ownRequire: WebpackRequire,
+  isolationNamespace: string,
+  namespace: RuntimeIsolationNamespace,
+  options: IsolationDisposeOptions
+): void {
+  Object.values(namespace.translations).forEach(({ ownModuleId, isolated }) => {
+    // Reused own modules belong to the own host, so only the instances created from origin factories are disposed,
+    // including the ones stored under own module IDs
+    if (!isolated) {
+      return
+    }
+
+    const isolatedModule = ownRequire.c[ownModuleId]
+    if (isolatedModule && options.runDisposeHandlers) {
+      isolatedModule[DISPOSE_HANDLERS_KEY]?.forEach((disposeHandler) => disposeHandler({}))
+    }
+
+    delete ownRequire.c[ownModuleId]
+    // Hint: factories of isolated instances are only kept when they are cached by the origin host itself, while the
+    // ones of instances stored under own module IDs are the own factories
+    if (`${ownModuleId}`.startsWith(`${isolationNamespace}/`)) {
+      delete ownRequire.m[ownModuleId]
+    }
+  })
+  namespace.translations = {}
+}
+
+/**
+ * Removes the isolated instances of a namespace from the cache of a host, so that the next time they are required
+ * they are instantiated from scratch. Also available at runtime as
+ * `__webpack_require__.federation.isolation.dispose(namespace)`. The require of the host defaults to the one of the
+ * bundle calling it, so it must be given when called from outside of a bundle
+ */
+export function disposeIsolationNamespace(
+  isolationNamespace: string,
+  options: IsolationDisposeOptions = {},
+  hostRequire?: WebpackRequire
+): boolean {
+  const ownRequire = getHostRequire(hostRequire, 'disposeIsolationNamespace')
+  const manifest = ownRequire.federation.isolation
+  const namespace = manifest.namespaces[isolationNamespace]
+  if (!namespace) {
+    return false
+  }
+
+  disposeIsolatedInstances(ownRequire, isolationNamespace, namespace, options)
+  // Hint: consumers are only registered when resolving the shared dependency, so namespaces with consumers are kept
+  // for hot updates to keep reaching them once their instances are created again
+  if (!namespace.consumers.length) {
+    delete manifest.namespaces[isolationNamespace]
+  }
+  return true
+}
+
+/**
+ * Disposes every namespace with instances of modules of an origin host, along with the redirections to that host and
+ * the package versions matched for it. Also available at runtime as
+ * `__webpack_require__.federation.isolation.disposeOriginHost(originHost)`. The require of the host defaults to the
+ * one of the bundle calling it, so it must be given when called from outside of a bundle
+ */
+export function disposeIsolationOriginHost(
+  originHost: string,
+  options: IsolationDisposeOptions = {},
+  hostRequire?: WebpackRequire
+): void {
+  const ownRequire = getHostRequire(hostRequire, 'disposeIsolationOriginHost')
+  const manifest = ownRequire.federation.isolation
+
+  Object.entries(manifest.namespaces).forEach(([isolationNamespace, { translations }]) => {
+    if (Object.values(translations).some((translation) => translation.originHost === originHost)) {
+      disposeIsolationNamespace(isolationNamespace, options, ownRequire)
+    }
+  })
+
+  delete manifest.pkgMatch[originHost]
+  Object.values(manifest.red).forEach((redirection) => {
+    if (redirection.webpackRequire?.federation.isolation.hostName === originHost) {
+      redirection.mid = null
+      redirection.webpackRequire = undefined
+    }
+  })
+}
+
+function getRuntimeIsolationNamespace(
+  ownRequire: WebpackRequire,
+  isolationNamespace: string,
+  strategy: RuntimeStateStrategy
+): RuntimeIsolationNamespace {
+  const namespaces = ownRequire.federation.isolation.namespaces
+  if (!namespaces[isolationNamespace]) {
+    namespaces[isolationNamespace] = { strategy, translations: {}, consumers: [] }
+  }
+
+  return namespaces[isolationNamespace]
+}
+
+function recordTranslation(
+  ownRequire: WebpackRequire,
+  originRequire: WebpackRequire,
+  isolationNamespace: string,
+  strategy: RuntimeStateStrategy,
+  originModuleId: WebpackModuleId,
+  ownModuleId: WebpackModuleId,
+  isolated: boolean
+): void {
+  const originHost = originRequire.federation.isolation.hostName
+  const translations = getRuntimeIsolationNamespace(ownRequire, isolationNamespace, strategy).translations
+  const translationKey = `${originHost}/${originModuleId}`
+  translations[translationKey] = {
+    originHost,
+    originModuleId,
+    ownModuleId,
+    // Hint: instances created by this namespace are found in the cache when translated again
+    isolated: isolated || (translations[translationKey]?.isolated ?? false),
+  }
+
+  if (originRequire.hmrC) {
+    const hotDependents = originRequire.federation.isolation.hotDependents
+    hotDependents[originModuleId] = hotDependents[originModuleId] || []
+    if (
+      !hotDependents[originModuleId].some(
+        ([dependentRequire, dependentNamespace]) =>
+          dependentRequire === ownRequire && dependentNamespace === isolationNamespace
+      )
+    ) {
+      hotDependents[originModuleId].push([ownRequire, isolationNamespace])
+    }
+  }
+}
+
+function addIsolationNamespaceConsumer(
+  cacheRequire: WebpackRequire,
+  isolationNamespace: string,
+  strategy: RuntimeStateStrategy,
+  consumerRequire: WebpackRequire,
+  consumeSharedModuleId: WebpackModuleId
+): void {
+  const namespace = getRuntimeIsolationNamespace(cacheRequire, isolationNamespace, strategy)
+  if (
+    !namespace.consumers.some(
+      ([existingRequire, existingModuleId]) =>
+        existingRequire === consumerRequire && existingModuleId === consumeSharedModuleId
+    )
+  ) {
+    namespace.consumers.push([consumerRequire, consumeSharedModuleId])
+  }
+}
+
+export type PackageVersionMatchDecision = 'reuse' | 'store' | 'isolate'
+
+export type PackageVersionMatch = {
+  decision: PackageVersionMatchDecision
+  ownPackageVersion: string | null
+}
+
+/**
+ * Decides which own package version, if any, an origin package version can be translated to when reusing own modules
+ */
+export function matchOwnPackageVersion(
+  ownPackageVersions: [string, string[]][] | undefined,
+  originPackageVersion: string,
+  originPackageRangesIn: string[] | undefined,
+  isOwnPackageVersionLoaded: (ownPackageVersion: string) => boolean
+): PackageVersionMatch {
+  // If a compatible module is already loaded, use it
+  const ownPackageVersionCompatibleWithOriginPackage = ownPackageVersions?.find(([version]) => {
+    return originPackageRangesIn?.every((range) => semverSatisfies(version, range))
+  })
+  if (
+    ownPackageVersionCompatibleWithOriginPackage &&
+    isOwnPackageVersionLoaded(ownPackageVersionCompatibleWithOriginPackage[0])
+  ) {
+    return { decision: 'reuse', ownPackageVersion: ownPackageVersionCompatibleWithOriginPackage[0] }
+  }
+
+  // Try to check if origin module could be loaded in place of any own module that is not loaded
+  const compatibleOwnPackageVersion = ownPackageVersions?.find(([_, rangesIn]) => {
+    return rangesIn.every((range) => semverSatisfies(originPackageVersion, range))
+  })
+  if (compatibleOwnPackageVersion && !isOwnPackageVersionLoaded(compatibleOwnPackageVersion[0])) {
+    return { decision: 'store', ownPackageVersion: compatibleOwnPackageVersion[0] }
+  }
+
+  return { decision: 'isolate', ownPackageVersion: null }
+}
+
+function getSharedDependencyOptions(
+  options: RuntimePluginOptions,
+  sharedDependencyPatterns: [RegExp, RuntimeSharedDependencyOptions][],
+  pkgName: string
+): RuntimeSharedDependencyOptions | undefined {
+  if (options.sharedDependencies[pkgName]) {
+    return options.sharedDependencies[pkgName]
+  }
+
+  return sharedDependencyPatterns.find(([pattern]) => pattern.test(pkgName))?.[1]
+}
+
 function patchModuleFactory(moduleFactory: WebpackModuleFactory, patchedRequire: WebpackRequire): WebpackModuleFactory {
-  return (module: WebpackModule, exports: WebpackModule['exports']) => moduleFactory(module, exports, patchedRequire)
+  return (module: WebpackModule, exports: WebpackModule['exports']) => {
+    recordDisposeHandlers(module)
+    return moduleFactory(module, exports, patchedRequire)
+  }
 }
 
 function createTranslationRequire(
@@ -215,7 +909,9 @@ function createTranslationRequire(
   originalOriginRequire: WebpackRequire,
   isolationNamespace: string,
   strategy: RuntimeStateStrategy,
-  log: (verbosity: RuntimeVerbosity, message: string) => void
+  log: (verbosity: RuntimeVerbosity, message: string) => void,
+  emit: RuntimeHookEmitter,
+  keepsOriginSingleton: SingletonPredicate
 ): WebpackRequire {
   return new Proxy(originalOriginRequire, {
     apply(_, __, args: [WebpackModuleId]) {
@@ -227,6 +923,18 @@ function createTranslationRequire(
       if (possibleRedirection?.mid && possibleRedirection?.webpackRequire) {
         originModuleId = possibleRedirection.mid
         originRequire = possibleRedirection.webpackRequire
+
+        if (
+          possibleRedirection.sng !== undefined &&
+          keepsOriginSingleton(possibleRedirection.sng, originRequire.federation.isolation.hostName)
+        ) {
+          // Singletons are not translated, so every isolated module sees the instance of the origin host
+          log(
+            RuntimeVerbosity.Debug,
+            `[${isolationNamespace}] Using origin instance of singleton ${possibleRedirection.sng} (${originModuleId})`
+          )
+          return originRequire(originModuleId)
+        }
       }
 
       let ownModuleId: WebpackModuleId | null = null
@@ -239,51 +947,47 @@ function createTranslationRequire(
 
           let ownPackageVersion = ownRequire.federation.isolation.pkgMatch[originHostName]?.[originPackageUniversalId]
           if (ownPackageVersion === undefined) {
-            ownPackageVersion = null
             const ownPackageVersions = ownRequire.federation.isolation.pkgVersions[originUniversalModule.pkgName]
             const originPackageVersions = originRequire.federation.isolation.pkgVersions[originUniversalModule.pkgName]
             const originPackageVersion = originPackageVersions.find(
               ([version]) => version === originUniversalModule.pkgVersion
             )
 
-            // If a compatible module is already loaded, use it
-            const ownPackageVersionCompatibleWithOriginPackage = ownPackageVersions?.find(([version]) => {
-              return originPackageVersion?.[1].every((range) => semverSatisfies(version, range))
-            })
-            if (ownPackageVersionCompatibleWithOriginPackage) {
-              const possibleOwnPackageVersion = ownPackageVersionCompatibleWithOriginPackage[0]
-              const possibleOwnModuleId =
-                ownRequire.federation.isolation.pkg[originUniversalModule.pkgName][possibleOwnPackageVersion][1][
-                  originUniversalModule.modulePath
-                ]
-              if (ownRequire.c[possibleOwnModuleId]) {
-                ownPackageVersion = possibleOwnPackageVersion
-                log(
-                  RuntimeVerbosity.Debug,
-                  `[${isolationNamespace}] Using ${ownRequire.federation.isolation.hostName}'s ${originUniversalModule.pkgName}~${ownPackageVersion} as ${originHostName}'s ${originPackageUniversalId}`
+            const packageVersionMatch = matchOwnPackageVersion(
+              ownPackageVersions,
+              originUniversalModule.pkgVersion,
+              originPackageVersion?.[1],
+              (possibleOwnPackageVersion) => {
+                const possibleOwnModuleId = getOwnModuleId(
+                  ownRequire.federation.isolation.pkg[originUniversalModule.pkgName][possibleOwnPackageVersion][1],
+                  originUniversalModule
                 )
+                return possibleOwnModuleId !== null && !!ownRequire.c[possibleOwnModuleId]
               }
+            )
+            ownPackageVersion = packageVersionMatch.ownPackageVersion
+            const packageMatchHookEvent: PackageMatchHookEvent = {
+              isolationNamespace,
+              originHost: originHostName,
+              pkgName: originUniversalModule.pkgName,
+              originPackageVersion: originUniversalModule.pkgVersion,
+              ownPackageVersion,
             }
 
-            if (ownPackageVersion === null) {
-              // Try to check if origin module could be loaded in place of any own module that is not loaded
-              const compatibleOwnPackageVersion = ownPackageVersions?.find(([_, rangesIn]) => {
-                return rangesIn.every((range) => semverSatisfies(originUniversalModule.pkgVersion, range))
-              })
-              if (compatibleOwnPackageVersion) {
-                const possibleOwnPackageVersion = compatibleOwnPackageVersion[0]
-                const possibleOwnModuleId =
-                  ownRequire.federation.isolation.pkg[originUniversalModule.pkgName][possibleOwnPackageVersion][1][
-                    originUniversalModule.modulePath
-                  ]
-                if (!ownRequire.c[possibleOwnModuleId]) {
-                  ownPackageVersion = possibleOwnPackageVersion
-                  log(
-                    RuntimeVerbosity.Debug,
-                    `[${isolationNamespace}] Storing ${originHostName}'s ${originPackageUniversalId} as ${ownRequire.federation.isolation.hostName}'s ${originUniversalModule.pkgName}~${ownPackageVersion}`
-                  )
-                }
-              }
+            if (packageVersionMatch.decision === 'reuse') {
+              log(
+                RuntimeVerbosity.Debug,
+                `[${isolationNamespace}] Using ${ownRequire.federation.isolation.hostName}'s ${originUniversalModule.pkgName}~${ownPackageVersion} as ${originHostName}'s ${originPackageUniversalId}`
+              )
+              emit('onReuseOwn', packageMatchHookEvent)
+            } else if (packageVersionMatch.decision === 'store') {
+              log(
+                RuntimeVerbosity.Debug,
+                `[${isolationNamespace}] Storing ${originHostName}'s ${originPackageUniversalId} as ${ownRequire.federation.isolation.hostName}'s ${originUniversalModule.pkgName}~${ownPackageVersion}`
+              )
+              emit('onStoreOrigin', packageMatchHookEvent)
+            } else {
+              emit('onIsolate', packageMatchHookEvent)
             }
 
             ownRequire.federation.isolation.pkgMatch[originHostName] = {
@@ -293,10 +997,10 @@ function createTranslationRequire(
           }
 
           if (ownPackageVersion !== null) {
-            ownModuleId =
-              ownRequire.federation.isolation.pkg[originUniversalModule.pkgName][ownPackageVersion][1][
-                originUniversalModule.modulePath
-              ] ?? null
+            ownModuleId = getOwnModuleId(
+              ownRequire.federation.isolation.pkg[originUniversalModule.pkgName][ownPackageVersion][1],
+              originUniversalModule
+            )
           }
         }
       }
@@ -306,7 +1010,8 @@ function createTranslationRequire(
       log(RuntimeVerbosity.Debug, `[${isolationNamespace}] Translating ${originModuleId} -> ${ownModuleId}`)
 
       if (ownRequire.c[ownModuleId]) {
-        // Module is already instantiated and copied to the own cache
+        // Module is already instantiated and copied to the own cache, or it's an own module reused as is
+        recordTranslation(ownRequire, originRequire, isolationNamespace, strategy, originModuleId, ownModuleId, false)
         return ownRequire.c[ownModuleId].exports
       }
 
@@ -315,15 +1020,36 @@ function createTranslationRequire(
         return originRequire.c[isolatedModuleId].exports
       }
 
+      if (!originRequire.m[originModuleId]) {
+        throw new Error(
+          `[${isolationNamespace}] Could not translate ${originModuleId}, as its factory is not loaded in ${originRequire.federation.isolation.hostName}`
+        )
+      }
+
       // Module is not in cache, create a new module instance
       originRequire.m[isolatedModuleId] = patchModuleFactory(
         originRequire.m[originModuleId],
-        createTranslationRequire(ownRequire, originRequire, isolationNamespace, strategy, log)
+        createTranslationRequire(
+          ownRequire,
+          originRequire,
+          isolationNamespace,
+          strategy,
+          log,
+          emit,
+          keepsOriginSingleton
+        )
       )
       originRequire(isolatedModuleId)
 
       // Move instantiated module and clean up the origin cache
       ownRequire.c[ownModuleId] = originRequire.c[isolatedModuleId]
+      recordTranslation(ownRequire, originRequire, isolationNamespace, strategy, originModuleId, ownModuleId, true)
+      emit('onTranslate', {
+        isolationNamespace,
+        originHost: originRequire.federation.isolation.hostName,
+        originModuleId,
+        ownModuleId,
+      })
       if (ownRequire !== originRequire || ownModuleId !== isolatedModuleId) {
         delete originRequire.c[isolatedModuleId]
         delete originRequire.m[isolatedModuleId]
@@ -333,7 +1059,179 @@ function createTranslationRequire(
   })
 }
 
-export function createMfiRuntimePlugin(options: RuntimePluginOptions): () => FederationRuntimePlugin {
+export type IsolationScope = {
+  id: string
+  // Isolation namespaces created within the scope, along with the require of the host caching their instances
+  namespaces: [WebpackRequire, string][]
+}
+
+/**
+ * Keeps track of the current isolation scope. It's compatible with Node's `AsyncLocalStorage`
+ */
+export type IsolationScopeStorage = {
+  getStore: () => IsolationScope | undefined
+  run: <R>(scope: IsolationScope, fn: () => R) => R
+}
+
+type IsolationScopeRegistry = {
+  storage: IsolationScopeStorage
+  nextScopeId: number
+  // Requires of the hosts using the runtime plugin, whose module caches are restored when disposing a scope, along with
+  // the IDs of the modules they had instantiated when they were registered
+  requires: Map<WebpackRequire, Set<WebpackModuleId>>
+}
+
+// Hint: every remote bundles its own copy of the runtime plugin, so the scopes are kept in a global registry
+const ISOLATION_SCOPE_REGISTRY_KEY = Symbol.for('module-federation-isolation-plugin/isolation-scopes')
+
+function createSynchronousIsolationScopeStorage(): IsolationScopeStorage {
+  const scopeStack: IsolationScope[] = []
+  return {
+    getStore: () => scopeStack[scopeStack.length - 1],
+    run: (scope, fn) => {
+      scopeStack.push(scope)
+      try {
+        return fn()
+      } finally {
+        scopeStack.pop()
+      }
+    },
+  }
+}
+
+function getIsolationScopeRegistry(): IsolationScopeRegistry {
+  const globalRegistry = globalThis as unknown as Record<symbol, IsolationScopeRegistry | undefined>
+  if (!globalRegistry[ISOLATION_SCOPE_REGISTRY_KEY]) {
+    globalRegistry[ISOLATION_SCOPE_REGISTRY_KEY] = {
+      storage: createSynchronousIsolationScopeStorage(),
+      nextScopeId: 0,
+      requires: new Map(),
+    }
+  }
+
+  return globalRegistry[ISOLATION_SCOPE_REGISTRY_KEY] as IsolationScopeRegistry
+}
+
+/**
+ * Replaces the storage of the current isolation scope, which by default only follows synchronous code. Use an
+ * `AsyncLocalStorage` on the server, so that scopes follow asynchronous code
+ */
+export function setIsolationScopeStorage(storage: IsolationScopeStorage): void {
+  getIsolationScopeRegistry().storage = storage
+}
+
+/**
+ * Runs a function in a new isolation scope, e.g. a server-side request. Shared dependencies isolated within the scope
+ * get instances private to it, which are disposed once the function returns or its promise settles. Modules instantiated
+ * within the scope are removed from the module cache along with it, so that the next scope instantiates them again
+ */
+export function runInIsolationScope<R>(fn: () => R): R {
+  const registry = getIsolationScopeRegistry()
+  const scope: IsolationScope = { id: `${registry.nextScopeId++}`, namespaces: [] }
+  // Hint: the consumers of scoped instances are cached by webpack, and would hand them over to later scopes otherwise
+  const cachedModuleIdsByRequire: Map<WebpackRequire, Set<WebpackModuleId>> = new Map(
+    [...registry.requires.keys()].map((cacheRequire) => [cacheRequire, new Set(Object.keys(cacheRequire.c))])
+  )
+  const disposeScope = () => {
+    scope.namespaces.forEach(([cacheRequire, isolationNamespace]) =>
+      disposeIsolationNamespace(isolationNamespace, {}, cacheRequire)
+    )
+    // Hint: hosts registered within the scope, e.g. remotes loaded on demand, only keep the modules they had
+    // instantiated by then, like the federation runtime
+    registry.requires.forEach((registeredModuleIds, cacheRequire) => {
+      const cachedModuleIds = cachedModuleIdsByRequire.get(cacheRequire) ?? registeredModuleIds
+      Object.keys(cacheRequire.c)
+        .filter((moduleId) => !cachedModuleIds.has(moduleId))
+        .forEach((moduleId) => delete cacheRequire.c[moduleId])
+    })
+  }
+
+  let result: R
+  try {
+    result = registry.storage.run(scope, fn)
+  } catch (error) {
+    disposeScope()
+    throw error
+  }
+
+  // Hint: any thenable defers the disposal, as promises may come from another realm or library
+  if (typeof (result as { then?: unknown } | undefined)?.then === 'function') {
+    return Promise.resolve(result).finally(disposeScope) as R
+  }
+
+  disposeScope()
+  return result
+}
+
+function createIsolatedFactory(
+  cacheRequire: WebpackRequire,
+  originRequire: WebpackRequire,
+  isolationNamespace: string,
+  strategy: RuntimeStateStrategy,
+  originModuleId: WebpackModuleId,
+  log: (verbosity: RuntimeVerbosity, message: string) => void,
+  emit: RuntimeHookEmitter,
+  keepsOriginSingleton: SingletonPredicate
+): () => WebpackModule['exports'] {
+  const patchedRequire = createTranslationRequire(
+    cacheRequire,
+    originRequire,
+    isolationNamespace,
+    strategy,
+    log,
+    emit,
+    keepsOriginSingleton
+  )
+
+  return () => {
+    const isolationScope = getIsolationScopeRegistry().storage.getStore()
+    if (strategy !== RuntimeStateStrategy.Isolate || !isolationScope) {
+      return patchedRequire(originModuleId)
+    }
+
+    // Instances created within a scope live in a namespace of their own, disposed along with the scope
+    const scopedIsolationNamespace = `${isolationNamespace}#${isolationScope.id}`
+    if (
+      !isolationScope.namespaces.some(
+        ([scopeRequire, scopeIsolationNamespace]) =>
+          scopeRequire === cacheRequire && scopeIsolationNamespace === scopedIsolationNamespace
+      )
+    ) {
+      isolationScope.namespaces.push([cacheRequire, scopedIsolationNamespace])
+    }
+    return createTranslationRequire(
+      cacheRequire,
+      originRequire,
+      scopedIsolationNamespace,
+      strategy,
+      log,
+      emit,
+      keepsOriginSingleton
+    )(originModuleId)
+  }
+}
+
+/**
+ * Loads the chunks holding the synchronous dependencies of a provided module, so that their factories are available
+ * when instantiating isolated copies of it
+ */
+function loadProvidedModuleChunks(originRequire: WebpackRequire, originModuleId: WebpackModuleId): Promise<unknown> {
+  const chunkIds = originRequire.federation.isolation.chk?.[originModuleId]
+  const loadChunk = originRequire.e
+  if (!chunkIds || !loadChunk) {
+    return Promise.resolve()
+  }
+
+  return Promise.all(chunkIds.map((chunkId) => loadChunk(chunkId)))
+}
+
+export function createMfiRuntimePlugin(
+  options: RuntimePluginOptions,
+  hooks: RuntimeHooks = {}
+): () => FederationRuntimePlugin {
+  const sharedDependencyPatterns = options.sharedDependencyPatterns.map<[RegExp, RuntimeSharedDependencyOptions]>(
+    ({ source, flags, options }) => [new RegExp(source, flags), options]
+  )
   const log: (verbosity: RuntimeVerbosity, ...data: unknown[]) => void = (
     verbosity: RuntimeVerbosity,
     ...data: unknown[]
@@ -343,27 +1241,107 @@ export function createMfiRuntimePlugin(options: RuntimePluginOptions): () => Fed
       logFunction(...data)
     }
   }
+  const eventHooks: RuntimeEventHooks = hooks
+  const emit: RuntimeHookEmitter = (hookName, event) => {
+    try {
+      eventHooks[hookName]?.(event)
+    } catch (error) {
+      // Hint: hooks are meant for telemetry, so their errors must not break the isolation
+      log(RuntimeVerbosity.Warnings, `[mfi] Runtime hook ${hookName} failed: ${error}`)
+    }
+  }
+  const resolveStateStrategy = (request: Omit<StateStrategyRequest, 'stateStrategy'>): RuntimeStateStrategy => {
+    const sharedDependencyOptions = getSharedDependencyOptions(options, sharedDependencyPatterns, request.pkgName)
+    const configuredStateStrategy = sharedDependencyOptions
+      ? sharedDependencyOptions.origins?.[request.originHost]?.stateStrategy ?? sharedDependencyOptions.stateStrategy
+      : options.respectSingletons && request.shareConfig?.singleton
+      ? RuntimeStateStrategy.UseOrigin
+      : options.stateStrategy
+    if (!hooks.resolveStateStrategy) {
+      return configuredStateStrategy
+    }
+
+    let resolvedStateStrategyName: RuntimeStateStrategyName | undefined
+    try {
+      resolvedStateStrategyName = hooks.resolveStateStrategy({
+        ...request,
+        stateStrategy: runtimeStateStrategyNames[configuredStateStrategy],
+      })
+    } catch (error) {
+      log(RuntimeVerbosity.Warnings, `[mfi/${request.ownHost}] Runtime hook resolveStateStrategy failed: ${error}`)
+      return configuredStateStrategy
+    }
+
+    if (resolvedStateStrategyName === undefined) {
+      return configuredStateStrategy
+    }
+
+    const resolvedStateStrategy = runtimeStateStrategiesByName[resolvedStateStrategyName]
+    if (resolvedStateStrategy === undefined) {
+      log(
+        RuntimeVerbosity.Warnings,
+        `[mfi/${request.ownHost}] Unknown strategy '${resolvedStateStrategyName}' resolved for ${request.pkgName}, using the configured one`
+      )
+      return configuredStateStrategy
+    }
+
+    if (resolvedStateStrategy > options.maximumStateStrategy) {
+      // Hint: reusing own modules requires export mangling to be disabled at build time
+      log(
+        RuntimeVerbosity.Warnings,
+        `[mfi/${request.ownHost}] Strategy '${resolvedStateStrategyName}' resolved for ${
+          request.pkgName
+        } was not enabled at build time, using '${runtimeStateStrategyNames[options.maximumStateStrategy]}'`
+      )
+      return options.maximumStateStrategy
+    }
+
+    return resolvedStateStrategy
+  }
+
+  const keepsOriginSingleton: SingletonPredicate = (shareKey, originHost) => {
+    if (!options.respectSingletons) {
+      return false
+    }
+
+    const sharedDependencyOptions = getSharedDependencyOptions(options, sharedDependencyPatterns, shareKey)
+    return (
+      !sharedDependencyOptions ||
+      (sharedDependencyOptions.origins?.[originHost]?.stateStrategy ?? sharedDependencyOptions.stateStrategy) ===
+        RuntimeStateStrategy.UseOrigin
+    )
+  }
 
   return function plugin(): FederationRuntimePlugin {
     const ownRequire = __webpack_require__
     let moduleToHandlerMapping: Record<WebpackModuleId, FederationRuntimeModuleToHandlerMapping> = {}
 
-    initiateRuntimeManifestIfPresent(ownRequire)
+    initiateRuntimeManifestIfPresent(ownRequire, log)
 
-    ownRequire.federation.bundlerRuntime.consumes = new Proxy(ownRequire.federation.bundlerRuntime.consumes, {
-      apply: (target, thisArg, args) => {
-        // Hack: intercept information about module to handler mapping
-        // Discuss a way to provide the consumed module ID in resolveShare
-        moduleToHandlerMapping = args[0].moduleToHandlerMapping
-        Reflect.apply(target, thisArg, args)
-      },
-    })
+    const isolationScopeRegistry = getIsolationScopeRegistry()
+    if (!isolationScopeRegistry.requires.has(ownRequire)) {
+      isolationScopeRegistry.requires.set(ownRequire, new Set(Object.keys(ownRequire.c)))
+    }
+
+    let interceptsModuleToHandlerMapping = false
 
     return {
       name: 'ModuleFederationIsolationRuntimePlugin',
       version: '0.0.1',
       beforeInit: (args) => {
         const ownHost = args.origin
+        // Hint: Rspack creates runtime plugins before attaching the bundler runtime, which is in place by initialization
+        if (!interceptsModuleToHandlerMapping) {
+          interceptsModuleToHandlerMapping = true
+          ownRequire.federation.bundlerRuntime.consumes = new Proxy(ownRequire.federation.bundlerRuntime.consumes, {
+            apply: (target, thisArg, args) => {
+              // Hack: intercept information about module to handler mapping
+              // Discuss a way to provide the consumed module ID in resolveShare
+              moduleToHandlerMapping = args[0].moduleToHandlerMapping
+              Reflect.apply(target, thisArg, args)
+            },
+          })
+        }
         // Expose the __webpack_require__ function in the federation host
         if (!ownHost.__webpack_require__) {
           ownHost.__webpack_require__ = ownRequire
@@ -379,10 +1357,14 @@ export function createMfiRuntimePlugin(options: RuntimePluginOptions): () => Fed
       },
       beforeLoadShare: (args) => {
         // Identify the own consume shared module ID
-        const ownConsumeSharedModuleEntry = Object.entries(moduleToHandlerMapping).find(
-          ([_, consumeSharedModuleMapping]) =>
-            args.shareInfo.shareConfig === consumeSharedModuleMapping.shareInfo.shareConfig
-        )
+        const loadingModuleId = args.loadContext?.moduleId
+        const ownConsumeSharedModuleEntry =
+          loadingModuleId !== undefined && moduleToHandlerMapping[loadingModuleId]
+            ? [`${loadingModuleId}`]
+            : Object.entries(moduleToHandlerMapping).find(
+                ([_, consumeSharedModuleMapping]) =>
+                  args.shareInfo.shareConfig === consumeSharedModuleMapping.shareInfo.shareConfig
+              )
         const ownConsumeSharedModuleId = ownConsumeSharedModuleEntry ? ownConsumeSharedModuleEntry[0] : null
 
         if (ownConsumeSharedModuleId !== null) {
@@ -409,16 +1391,44 @@ export function createMfiRuntimePlugin(options: RuntimePluginOptions): () => Fed
       resolveShare: (args) => {
         const pkgName = args.pkgName
         const pkgVersion = args.version
-        const stateStrategy = options.sharedDependencies[pkgName]
-          ? options.sharedDependencies[pkgName].stateStrategy
-          : options.stateStrategy
 
-        const resolvedDependency = args.resolver()
+        const resolution = args.resolver()
+        const resolvedDependency = resolution && 'shared' in resolution ? resolution.shared : resolution
         if (!resolvedDependency) {
           return args
         }
 
-        args.resolver = () => ({
+        // Retrieve shared consume module ID from scope
+        const scopeMfiMarkIndex = args.scope.indexOf('/mfi/scope/')
+        const ownConsumeSharedModuleId = scopeMfiMarkIndex !== -1 ? args.scope.slice(0, scopeMfiMarkIndex) : null
+        const stateStrategy = resolveStateStrategy({
+          ownHost: ownRequire.federation.isolation.hostName,
+          originHost: resolvedDependency.from,
+          pkgName,
+          version: pkgVersion,
+          shareConfig:
+            ownConsumeSharedModuleId !== null
+              ? moduleToHandlerMapping[ownConsumeSharedModuleId]?.shareInfo.shareConfig
+              : undefined,
+        })
+
+        emit('onResolveShare', {
+          ownHost: ownRequire.federation.isolation.hostName,
+          originHost: resolvedDependency.from,
+          pkgName,
+          version: pkgVersion,
+          stateStrategy: runtimeStateStrategyNames[stateStrategy],
+        })
+        const emitFallback = (reason: string) =>
+          emit('onFallback', {
+            ownHost: ownRequire.federation.isolation.hostName,
+            originHost: resolvedDependency.from,
+            pkgName,
+            version: pkgVersion,
+            reason,
+          })
+
+        const createIsolatedDependency = (): FederationRuntimeDependency => ({
           ...resolvedDependency,
           lib: undefined,
           loaded: false,
@@ -444,27 +1454,26 @@ export function createMfiRuntimePlugin(options: RuntimePluginOptions): () => Fed
                   RuntimeVerbosity.Warnings,
                   `[mfi/${ownRequire.federation.isolation.hostName}] Could not find host named ${resolvedDependency.from}`
                 )
+                emitFallback('origin-host-not-found')
                 return originalFactory
               } else if (!originHost.__webpack_require__) {
                 log(
                   RuntimeVerbosity.Warnings,
                   `[mfi/${ownRequire.federation.isolation.hostName}] Host ${resolvedDependency.from} is not using ${PLUGIN_NAME}`
                 )
+                emitFallback('origin-host-without-plugin')
                 return originalFactory
               }
 
-              // Retrieve shared consume module ID from scope
-              const scopeMfiMarkIndex = args.scope.indexOf('/mfi/scope/')
-              if (scopeMfiMarkIndex === -1) {
+              if (ownConsumeSharedModuleId === null) {
                 log(
                   RuntimeVerbosity.Warnings,
                   `[mfi/${ownRequire.federation.isolation.hostName}] Could not find MFI scope mark in scope '${args.scope}'`
                 )
+                emitFallback('consume-shared-module-not-found')
                 return originalFactory
               }
 
-              const ownConsumeSharedModuleId = args.scope.slice(0, scopeMfiMarkIndex)
-
               // Retrieve origin host require and provided module ID
               const originRequire = originHost.__webpack_require__
               let originModuleId = resolvedDependency.get.providedModuleId
@@ -482,6 +1491,7 @@ export function createMfiRuntimePlugin(options: RuntimePluginOptions): () => Fed
                   RuntimeVerbosity.Warnings,
                   `[mfi/${ownRequire.federation.isolation.hostName}] Could not find module ID for ${ownConsumeSharedModuleId}`
                 )
+                emitFallback('origin-module-not-found')
                 return originalFactory
               }
 
@@ -491,6 +1501,7 @@ export function createMfiRuntimePlugin(options: RuntimePluginOptions): () => Fed
                 `[mfi/${ownRequire.federation.isolation.hostName}] Setting redirection ${ownConsumeSharedModuleId} -> ${originModuleId}`
               )
               ownRequire.federation.isolation.red[ownConsumeSharedModuleId] = {
+                ...ownRequire.federation.isolation.red[ownConsumeSharedModuleId],
                 mid: originModuleId,
                 webpackRequire: originRequire,
               }
@@ -499,16 +1510,72 @@ export function createMfiRuntimePlugin(options: RuntimePluginOptions): () => Fed
                 return originalFactory
               }
 
-              const patchedRequire = createTranslationRequire(
+              if (stateStrategy === RuntimeStateStrategy.Isolate && options.isolationGroup) {
+                // Members of an isolation group share their isolated instances, so they are cached by the origin host
+                // under a namespace that is common to all of them
+                const groupIsolationNamespace = `mfi/@${options.isolationGroup}/${pkgName}/${pkgVersion}`
+                addIsolationNamespaceConsumer(
+                  originRequire,
+                  groupIsolationNamespace,
+                  stateStrategy,
+                  ownRequire,
+                  ownConsumeSharedModuleId
+                )
+                const patchedGroupFactory = createIsolatedFactory(
+                  originRequire,
+                  originRequire,
+                  groupIsolationNamespace,
+                  stateStrategy,
+                  originModuleId,
+                  log,
+                  emit,
+                  keepsOriginSingleton
+                )
+                return loadProvidedModuleChunks(originRequire, originModuleId).then(() => patchedGroupFactory)
+              }
+
+              const isolationNamespace = `mfi/${ownRequire.federation.isolation.hostName}/${pkgName}/${pkgVersion}`
+              addIsolationNamespaceConsumer(
+                ownRequire,
+                isolationNamespace,
+                stateStrategy,
+                ownRequire,
+                ownConsumeSharedModuleId
+              )
+              const patchedFactory = createIsolatedFactory(
                 ownRequire,
                 originRequire,
-                `mfi/${ownRequire.federation.isolation.hostName}/${pkgName}/${pkgVersion}`,
+                isolationNamespace,
                 stateStrategy,
-                log
+                originModuleId,
+                log,
+                emit,
+                keepsOriginSingleton
               )
-              return () => patchedRequire(originModuleId as WebpackModuleId)
+
+              const loadingProvidedModuleChunks = loadProvidedModuleChunks(originRequire, originModuleId)
+              if (stateStrategy !== RuntimeStateStrategy.ReuseOwn) {
+                return loadingProvidedModuleChunks.then(() => patchedFactory)
+              }
+
+              // Reusing own modules needs the package data of both hosts, as well as of the hosts the origin host
+              // redirects its shared modules to, before translating anything
+              const requiresToLoad = new Set([ownRequire, originRequire])
+              Object.values(originRequire.federation.isolation.red).forEach(({ webpackRequire }) => {
+                if (webpackRequire) {
+                  requiresToLoad.add(webpackRequire)
+                }
+              })
+              return Promise.all([
+                loadingProvidedModuleChunks,
+                ...[...requiresToLoad].map((requireToLoad) => loadLazyRuntimeManifest(requireToLoad, log)),
+              ]).then(() => patchedFactory)
             }),
         })
+        args.resolver = () =>
+          resolution && 'shared' in resolution
+            ? { ...resolution, shared: createIsolatedDependency() }
+            : createIsolatedDependency()
 
         return args
       },
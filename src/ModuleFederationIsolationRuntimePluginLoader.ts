@@ -0,0 +1,45 @@
+import type { LoaderContext } from 'webpack'
+
+export type RuntimePluginLoaderOptions = {
+  // Serialized RuntimePluginOptions
+  options: string
+  // Request of the user runtime hooks module, if any. Requests are resolved from the compiler context
+  hooks?: string
+}
+
+/**
+ * Generates the runtime plugin module of a remote entry from the runtime plugin source and the serialized options,
+ * so that nothing has to be written to disk
+ */
+export default function runtimePluginLoader(this: LoaderContext<RuntimePluginLoaderOptions>): void {
+  const callback = this.async()
+  const { options, hooks } = this.getOptions()
+  // Hint: requests are relative to keep the generated code independent of the machine it's built on
+  const runtimePluginRequest = JSON.stringify(this.utils.contextify(this.context, this.resourcePath))
+
+  if (!hooks) {
+    callback(
+      null,
+      [
+        `const { createMfiRuntimePlugin } = require(${runtimePluginRequest});`,
+        `module.exports = createMfiRuntimePlugin(${options});`,
+      ].join('\n')
+    )
+    return
+  }
+
+  // Hint: the generated module lives next to the runtime plugin, from where the packages of the project may not be
+  // reachable (e.g. with pnpm or Yarn PnP), so the hooks are resolved from the compiler context instead
+  this.getResolve({ dependencyType: 'commonjs' })(this.rootContext, hooks).then((hooksPath) => {
+    const hooksRequest = JSON.stringify(this.utils.contextify(this.context, hooksPath))
+    callback(
+      null,
+      [
+        `const { createMfiRuntimePlugin } = require(${runtimePluginRequest});`,
+        `const runtimeHooks = require(${hooksRequest});`,
+        // Hint: hooks may be either named exports or properties of the default export
+        `module.exports = createMfiRuntimePlugin(${options}, runtimeHooks.default || runtimeHooks);`,
+      ].join('\n')
+    )
+  }, callback)
+}
@@ -0,0 +1,147 @@
+import { ISOLATION_MANIFEST_VERSION, IsolationManifestAsset } from './ModuleFederationIsolationPlugin'
+import {
+  getOwnModuleId,
+  indexPackageVersionModules,
+  matchOwnPackageVersion,
+  PackageVersionMatchDecision,
+  RuntimeUniversalModule,
+} from './ModuleFederationIsolationRuntimePlugin'
+
+export type SimulationOptions = {
+  // Restrict the simulation to these packages. Empty means every package of the origin hosts
+  packages?: string[]
+}
+
+export type SimulatedPackageMatch = {
+  decision: PackageVersionMatchDecision
+  ownPackageVersion: string | null
+  // Origin module paths that have no counterpart in the matched own package version, so they will be isolated
+  untranslatedModulePaths: string[]
+}
+
+export type SimulatedPackageResult = {
+  packageName: string
+  originHost: string
+  originPackageVersion: string
+  ownHost: string
+  // Outcome when the own modules of the package are already instantiated when the translation happens
+  whenOwnLoaded: SimulatedPackageMatch
+  // Outcome when the own modules of the package have not been instantiated yet
+  whenOwnNotLoaded: SimulatedPackageMatch
+}
+
+function getPackageVersions(manifest: IsolationManifestAsset, packageName: string): [string, string[]][] | undefined {
+  const packageVersions = manifest.packages[packageName]
+  if (!packageVersions) {
+    return
+  }
+
+  return Object.entries(packageVersions).map(([version, { semverRangesIn }]) => [version, semverRangesIn])
+}
+
+function getSimulatedPackageMatch(
+  ownManifest: IsolationManifestAsset,
+  originManifest: IsolationManifestAsset,
+  packageName: string,
+  originPackageVersion: string,
+  ownLoaded: boolean
+): SimulatedPackageMatch {
+  const originPackageData = originManifest.packages[packageName][originPackageVersion]
+  const { decision, ownPackageVersion } = matchOwnPackageVersion(
+    getPackageVersions(ownManifest, packageName),
+    originPackageVersion,
+    originPackageData.semverRangesIn,
+    () => ownLoaded
+  )
+
+  // Hint: modules are indexed as the runtime does, so that they are matched through their export paths as well
+  const originModules: Record<string, RuntimeUniversalModule> = {}
+  indexPackageVersionModules(
+    packageName,
+    originPackageVersion,
+    { ...originPackageData.modulePathToModuleId },
+    originModules
+  )
+  const ownModulePathToModuleId =
+    ownPackageVersion !== null ? { ...ownManifest.packages[packageName][ownPackageVersion].modulePathToModuleId } : {}
+  if (ownPackageVersion !== null) {
+    indexPackageVersionModules(packageName, ownPackageVersion, ownModulePathToModuleId, {})
+  }
+
+  return {
+    decision,
+    ownPackageVersion,
+    untranslatedModulePaths:
+      decision === 'isolate'
+        ? []
+        : Object.values(originModules)
+            .filter((originModule) => getOwnModuleId(ownModulePathToModuleId, originModule) === null)
+            .map(({ modulePath }) => modulePath),
+  }
+}
+
+export function validateManifestAsset(manifest: unknown, source: string): IsolationManifestAsset {
+  const possibleManifest = manifest as Partial<IsolationManifestAsset> | null
+  if (!possibleManifest || typeof possibleManifest !== 'object' || !possibleManifest.packages) {
+    throw new Error(`${source} is not an isolation manifest`)
+  }
+
+  if (possibleManifest.version !== ISOLATION_MANIFEST_VERSION) {
+    throw new Error(
+      `${source} has manifest version ${possibleManifest.version}, but only version ${ISOLATION_MANIFEST_VERSION} is supported`
+    )
+  }
+
+  return possibleManifest as IsolationManifestAsset
+}
+
+/**
+ * Replays the reuse-own matching of the runtime for every pair of hosts, as if each one consumed the shared
+ * packages provided by each other
+ */
+export function simulateReuseOwn(
+  manifests: IsolationManifestAsset[],
+  options: SimulationOptions = {}
+): SimulatedPackageResult[] {
+  const packagesToSimulate = new Set(options.packages ?? [])
+  const results: SimulatedPackageResult[] = []
+
+  manifests.forEach((ownManifest) => {
+    manifests.forEach((originManifest) => {
+      if (ownManifest === originManifest) {
+        return
+      }
+
+      Object.entries(originManifest.packages).forEach(([packageName, originPackageVersions]) => {
+        if (packagesToSimulate.size && !packagesToSimulate.has(packageName)) {
+          return
+        }
+
+        Object.keys(originPackageVersions).forEach((originPackageVersion) => {
+          results.push({
+            packageName,
+            originHost: originManifest.name,
+            originPackageVersion,
+            ownHost: ownManifest.name,
+            whenOwnLoaded: getSimulatedPackageMatch(
+              ownManifest,
+              originManifest,
+              packageName,
+              originPackageVersion,
+              true
+            ),
+            whenOwnNotLoaded: getSimulatedPackageMatch(
+              ownManifest,
+              originManifest,
+              packageName,
+              originPackageVersion,
+              false
+            ),
+          })
+        })
+      })
+    })
+  })
+
+  return results
+}
@@ -0,0 +1,70 @@
+#!/usr/bin/env node
+import fs from 'fs'
+import {
+  simulateReuseOwn,
+  SimulatedPackageMatch,
+  SimulatedPackageResult,
+  validateManifestAsset,
+} from './ModuleFederationIsolationSimulator'
+
+const USAGE = 'Usage: mfi-simulate <manifest.json> <manifest.json>... [--package <name>]... [--json]'
+
+function formatMatch(match: SimulatedPackageMatch): string {
+  const target = match.ownPackageVersion !== null ? ` ${match.ownPackageVersion}` : ''
+  const untranslated = match.untranslatedModulePaths.length
+    ? ` (${match.untranslatedModulePaths.length} module(s) isolated)`
+    : ''
+  return `${match.decision}${target}${untranslated}`
+}
+
+function formatResult(result: SimulatedPackageResult): string {
+  return [
+    `${result.ownHost} <- ${result.originHost}`,
+    `${result.packageName}@${result.originPackageVersion}`,
+    `own loaded: ${formatMatch(result.whenOwnLoaded)}`,
+    `own not loaded: ${formatMatch(result.whenOwnNotLoaded)}`,
+  ].join('  ')
+}
+
+function main(args: string[]): number {
+  const manifestPaths: string[] = []
+  const packages: string[] = []
+  let json = false
+
+  for (let i = 0; i < args.length; i++) {
+    if (args[i] === '--json') {
+      json = true
+    } else if (args[i] === '--package') {
+      packages.push(args[++i])
+    } else if (args[i] === '--help') {
+      console.log(USAGE)
+      return 0
+    } else {
+      manifestPaths.push(args[i])
+    }
+  }
+
+  if (manifestPaths.length < 2 || packages.some((packageName) => !packageName)) {
+    console.error(USAGE)
+    return 1
+  }
+
+  const manifests = manifestPaths.map((manifestPath) =>
+    validateManifestAsset(JSON.parse(fs.readFileSync(manifestPath, 'utf-8')), manifestPath)
+  )
+  const results = simulateReuseOwn(manifests, { packages })
+
+  if (json) {
+    console.log(JSON.stringify(results, null, 2))
+  } else {
+    results.forEach((result) => console.log(formatResult(result)))
+  }
+  return 0
+}
+
+try {
+  process.exitCode = main(process.argv.slice(2))
+} catch (error) {
+  console.error(error instanceof Error ? error.message : error)
+  process.exitCode = 1
+}
@@ -0,0 +1,445 @@
+import assert from 'assert'
+import path from 'path'
+import vm from 'vm'
+import type { Compiler, Configuration } from 'webpack'
+
+/**
+ * Origin the compiled remotes are served from inside the harness. Each remote gets `${HARNESS_ORIGIN}/<name>/` as its
+ * public path, so remotes can reference each other as `<name>@${HARNESS_ORIGIN}/<name>/<filename>`
+ */
+export const HARNESS_ORIGIN = 'http://mfi.test'
+
+export type IsolationTestHarnessOptions = {
+  // Creates the compiler of a configuration, e.g. `webpack` or `rspack`
+  createCompiler: (config: Configuration) => Compiler
+  // Configurations of the remotes, using ModuleFederationPlugin. Containers are initialized in this order, so the
+  // first remote providing a shared dependency is the origin host of it
+  remotes: Configuration[]
+  // Names of the remotes whose containers are only loaded and initialized when one of their modules is imported first,
+  // as remotes loaded on demand by a host
+  remotesLoadedOnDemand?: string[]
+}
+
+// The selector picks the value to compare out of the exports of the exposed module, e.g. `(exports) => exports.store`.
+// Without it, the exports objects themselves are compared, which are always different across containers
+export type ExposedModuleReference = [
+  remoteName: string,
+  exposedModule: string,
+  select?: (exports: Record<string, unknown>) => unknown
+]
+
+export type IsolationTestHarness = {
+  // Context the bundles run in, shared by every remote as in a browser page
+  context: vm.Context
+  importExposed<T = unknown>(remoteName: string, exposedModule: string): Promise<T>
+  assertSameInstance(a: ExposedModuleReference, b: ExposedModuleReference, message?: string): Promise<void>
+  assertDifferentInstance(a: ExposedModuleReference, b: ExposedModuleReference, message?: string): Promise<void>
+  // Releases the compiled bundles, which are kept in memory
+  dispose(): void
+}
+
+type RemoteInfo = {
+  name: string
+  filename: string
+  outputPath: string
+}
+
+type MemoryFileSystemCallback<T = void> = (error: NodeJS.ErrnoException | null, result?: T) => void
+
+type MemoryFileSystemStats = {
+  size: number
+  mode: number
+  atime: Date
+  mtime: Date
+  ctime: Date
+  birthtime: Date
+  isFile(): boolean
+  isDirectory(): boolean
+  isSymbolicLink(): boolean
+}
+
+type MemoryFileSystem = ReturnType<typeof createMemoryFileSystem>
+
+type FederationContainer = {
+  init(shareScope: Record<string, unknown>): unknown
+  get(exposedModule: string): Promise<() => unknown> | (() => unknown)
+}
+
+type ScriptEvent = { type: string; target: ScriptElementStub; error?: unknown }
+
+type ScriptElementStub = {
+  src: string
+  attributes: Record<string, string>
+  parentNode: { removeChild(script: ScriptElementStub): void } | null
+  onload: ((event: ScriptEvent) => void) | null
+  onerror: ((event: ScriptEvent) => void) | null
+  setAttribute(name: string, value: string): void
+  getAttribute(name: string): string | null
+  removeAttribute(name: string): void
+  addEventListener(type: string, listener: (event: ScriptEvent) => void): void
+}
+
+function createFileSystemError(code: string, operation: string, filePath: string): NodeJS.ErrnoException {
+  return Object.assign(new Error(`${code}: ${operation} '${filePath}'`), { code, path: filePath })
+}
+
+/**
+ * Output file system keeping the emitted assets in memory, implementing the subset of the Node.js API that webpack
+ * and Rspack use to emit them
+ */
+function createMemoryFileSystem() {
+  const files = new Map<string, Buffer>()
+  const directories = new Set<string>([path.resolve('/')])
+  const getStats = (filePath: string): MemoryFileSystemStats | null => {
+    const file = files.get(filePath)
+    if (!file && !directories.has(filePath)) {
+      return null
+    }
+
+    const time = new Date(0)
+    return {
+      size: file?.length ?? 0,
+      mode: file ? 0o644 : 0o755,
+      atime: time,
+      mtime: time,
+      ctime: time,
+      birthtime: time,
+      isFile: () => !!file,
+      isDirectory: () => !file,
+      isSymbolicLink: () => false,
+    }
+  }
+  const stat = (filePath: string, callback: MemoryFileSystemCallback<MemoryFileSystemStats>) => {
+    const stats = getStats(path.resolve(filePath))
+    callback(stats ? null : createFileSystemError('ENOENT', 'stat', filePath), stats ?? undefined)
+  }
+
+  return {
+    join: path.join,
+    dirname: path.dirname,
+    relative: path.relative,
+    stat,
+    lstat: stat,
+    mkdir(filePath: string, ...args: [MemoryFileSystemCallback] | [unknown, MemoryFileSystemCallback]) {
+      const callback = args[args.length - 1] as MemoryFileSystemCallback
+      const directory = path.resolve(filePath)
+      if (files.has(directory) || directories.has(directory)) {
+        callback(createFileSystemError('EEXIST', 'mkdir', filePath))
+        return
+      }
+      // Hint: parent directories are created as well, as in a recursive mkdir
+      for (let parent = directory; !directories.has(parent); parent = path.dirname(parent)) {
+        directories.add(parent)
+      }
+      callback(null)
+    },
+    writeFile(
+      filePath: string,
+      content: string | Buffer,
+      ...args: [MemoryFileSystemCallback] | [unknown, MemoryFileSystemCallback]
+    ) {
+      const callback = args[args.length - 1] as MemoryFileSystemCallback
+      const file = path.resolve(filePath)
+      if (!directories.has(path.dirname(file))) {
+        callback(createFileSystemError('ENOENT', 'open', filePath))
+        return
+      }
+      files.set(file, Buffer.from(content))
+      callback(null)
+    },
+    readFile(
+      filePath: string,
+      ...args: [MemoryFileSystemCallback<Buffer>] | [unknown, MemoryFileSystemCallback<Buffer>]
+    ) {
+      const callback = args[args.length - 1] as MemoryFileSystemCallback<Buffer>
+      const file = files.get(path.resolve(filePath))
+      callback(file ? null : createFileSystemError('ENOENT', 'open', filePath), file)
+    },
+    readdir(filePath: string, callback: MemoryFileSystemCallback<string[]>) {
+      const directory = path.resolve(filePath)
+      if (!directories.has(directory)) {
+        callback(createFileSystemError('ENOENT', 'scandir', filePath))
+        return
+      }
+      const entries = [...directories, ...files.keys()].filter(
+        (entry) => entry !== directory && path.dirname(entry) === directory
+      )
+      callback(
+        null,
+        entries.map((entry) => path.basename(entry))
+      )
+    },
+    unlink(filePath: string, callback: MemoryFileSystemCallback) {
+      const deleted = files.delete(path.resolve(filePath))
+      callback(deleted ? null : createFileSystemError('ENOENT', 'unlink', filePath))
+    },
+    rmdir(filePath: string, callback: MemoryFileSystemCallback) {
+      const deleted = directories.delete(path.resolve(filePath))
+      callback(deleted ? null : createFileSystemError('ENOENT', 'rmdir', filePath))
+    },
+    readFileSync(filePath: string): Buffer | null {
+      return files.get(path.resolve(filePath)) ?? null
+    },
+    clear() {
+      files.clear()
+    },
+  }
+}
+
+function getRemoteInfo(config: Configuration, outputRoot: string): RemoteInfo {
+  const moduleFederationPlugin = config.plugins?.find(
+    (plugin) => plugin?.constructor.name === 'ModuleFederationPlugin'
+  ) as { options?: { name?: string; filename?: string }; _options?: { name?: string; filename?: string } } | undefined
+  const moduleFederationOptions = moduleFederationPlugin?._options ?? moduleFederationPlugin?.options
+  if (!moduleFederationOptions?.name || !moduleFederationOptions.filename) {
+    throw new Error('Every remote of the test harness needs a ModuleFederationPlugin with a name and a filename')
+  }
+
+  return {
+    name: moduleFederationOptions.name,
+    filename: moduleFederationOptions.filename,
+    outputPath: path.join(outputRoot, moduleFederationOptions.name),
+  }
+}
+
+/**
+ * Runs a single build of the configuration, rejecting with the errors of the compilation. Assets are emitted to the
+ * given output file system, or to the disk without one
+ */
+export function compile(
+  createCompiler: IsolationTestHarnessOptions['createCompiler'],
+  config: Configuration,
+  outputFileSystem?: MemoryFileSystem
+): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const compiler = createCompiler(config)
+    if (outputFileSystem) {
+      compiler.outputFileSystem = outputFileSystem as unknown as Compiler['outputFileSystem']
+    }
+    compiler.run((error, stats) => {
+      compiler.close(() => {
+        if (error) {
+          reject(error)
+        } else if (stats?.hasErrors()) {
+          reject(new Error(stats.toString({ all: false, errors: true })))
+        } else {
+          resolve()
+        }
+      })
+    })
+  })
+}
+
+function getFilePathForUrl(url: string, remotes: RemoteInfo[]): string | null {
+  if (!url.startsWith(`${HARNESS_ORIGIN}/`)) {
+    return null
+  }
+
+  const [remoteName, ...filePath] = url
+    .slice(HARNESS_ORIGIN.length + 1)
+    .split(/[?#]/)[0]
+    .split('/')
+  const remote = remotes.find(({ name }) => name === remoteName)
+  return remote ? path.join(remote.outputPath, ...filePath) : null
+}
+
+function createBrowserContext(remotes: RemoteInfo[], outputFileSystem: MemoryFileSystem): vm.Context {
+  const scripts: ScriptElementStub[] = []
+  const readFile = (url: string): string | null => {
+    const filePath = getFilePathForUrl(url, remotes)
+    return (filePath && outputFileSystem.readFileSync(filePath)?.toString('utf-8')) ?? null
+  }
+
+  const context = vm.createContext({
+    console,
+    setTimeout,
+    clearTimeout,
+    queueMicrotask,
+    URL,
+    TextEncoder,
+    TextDecoder,
+    location: { href: `${HARNESS_ORIGIN}/`, origin: HARNESS_ORIGIN, protocol: 'http:' },
+    navigator: { userAgent: 'module-federation-isolation-test-harness' },
+    fetch: (url: string) => {
+      const content = readFile(String(url))
+      return Promise.resolve({
+        ok: content !== null,
+        status: content !== null ? 200 : 404,
+        text: () => Promise.resolve(content ?? ''),
+        json: () => Promise.resolve(JSON.parse(content ?? 'null')),
+      })
+    },
+  })
+
+  const appendChild = (script: ScriptElementStub) => {
+    scripts.push(script)
+    script.parentNode = {
+      removeChild: (removedScript) => {
+        scripts.splice(scripts.indexOf(removedScript), 1)
+        removedScript.parentNode = null
+      },
+    }
+
+    // Hint: browsers run appended scripts asynchronously, which the chunk loading runtimes rely on
+    setTimeout(() => {
+      const content = readFile(script.src)
+      if (content === null) {
+        script.onerror?.({ type: 'error', target: script })
+        return
+      }
+
+      try {
+        vm.runInContext(content, context, { filename: script.src })
+      } catch (error) {
+        // Hint: the error is handed over as in an ErrorEvent, so that loading the remote entry rejects with it
+        script.onerror?.({ type: 'error', target: script, error })
+        return
+      }
+      script.onload?.({ type: 'load', target: script })
+    })
+    return script
+  }
+
+  context.document = {
+    head: { appendChild },
+    body: { appendChild },
+    currentScript: null,
+    createElement: (): ScriptElementStub => ({
+      src: '',
+      attributes: {},
+      parentNode: null,
+      onload: null,
+      onerror: null,
+      setAttribute(name, value) {
+        this.attributes[name] = value
+      },
+      getAttribute(name) {
+        return this.attributes[name] ?? null
+      },
+      removeAttribute(name) {
+        delete this.attributes[name]
+      },
+      addEventListener(type, listener) {
+        if (type === 'load' || type === 'error') {
+          this[type === 'load' ? 'onload' : 'onerror'] = listener
+        }
+      },
+    }),
+    getElementsByTagName: () => [...scripts],
+    querySelectorAll: () => [...scripts],
+  }
+  vm.runInContext('var self = globalThis, window = globalThis; document.defaultView = globalThis', context)
+
+  return context
+}
+
+function loadScript(context: vm.Context, url: string): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const script = context.document.createElement('script') as ScriptElementStub
+    script.src = url
+    script.onload = () => resolve()
+    script.onerror = ({ error }) => reject(error ?? new Error(`Could not load ${url}`))
+    context.document.head.appendChild(script)
+  })
+}
+
+/**
+ * Compiles the given remotes and loads them into a single `vm` context, where their containers are initialized with a
+ * common share scope as a host would do. Exposed modules can then be imported to check which instances of their
+ * dependencies they get. Bundles run the federation runtime they are built with, not a stub of it, as the isolation
+ * happens in the hooks that the runtime plugin registers on that runtime
+ */
+export async function createIsolationTestHarness(options: IsolationTestHarnessOptions): Promise<IsolationTestHarness> {
+  // Hint: remotes are emitted to an in-memory file system, so the output path only needs to be absolute
+  const outputRoot = path.resolve('/mfi-harness')
+  const outputFileSystem = createMemoryFileSystem()
+  const dispose = () => outputFileSystem.clear()
+
+  try {
+    const remotes = options.remotes.map((config) => getRemoteInfo(config, outputRoot))
+    // Hint: compilations run one after another, as running them in parallel doesn't pay off for a handful of remotes
+    for (const [index, config] of options.remotes.entries()) {
+      const { name, outputPath } = remotes[index]
+      await compile(
+        options.createCompiler,
+        {
+          ...config,
+          output: {
+            // Hint: remotes compiled from the same package would otherwise share the chunk loading global
+            uniqueName: name,
+            ...config.output,
+            path: outputPath,
+            publicPath: `${HARNESS_ORIGIN}/${name}/`,
+          },
+        },
+        outputFileSystem
+      )
+    }
+
+    const context = createBrowserContext(remotes, outputFileSystem)
+    const shareScope: Record<string, unknown> = {}
+    const loadContainer = async ({ name, filename }: RemoteInfo): Promise<FederationContainer> => {
+      await loadScript(context, `${HARNESS_ORIGIN}/${name}/${filename}`)
+      if (!context[name]) {
+        throw new Error(`Container ${name} was not found, the test harness only supports the 'var' library type`)
+      }
+      return context[name]
+    }
+
+    const containers: Record<string, FederationContainer | Promise<FederationContainer>> = {}
+    const remotesLoadedUpfront = remotes.filter(({ name }) => !options.remotesLoadedOnDemand?.includes(name))
+    for (const remote of remotesLoadedUpfront) {
+      containers[remote.name] = await loadContainer(remote)
+    }
+    for (const { name } of remotesLoadedUpfront) {
+      await (containers[name] as FederationContainer).init(shareScope)
+    }
+
+    const importExposed = async <T = unknown>(remoteName: string, exposedModule: string): Promise<T> => {
+      const remote = remotes.find(({ name }) => name === remoteName)
+      if (!remote) {
+        throw new Error(`Remote ${remoteName} is not part of the test harness`)
+      }
+
+      if (!containers[remoteName]) {
+        containers[remoteName] = loadContainer(remote).then(async (container) => {
+          await container.init(shareScope)
+          return container
+        })
+      }
+      const container = await containers[remoteName]
+      const factory = await container.get(exposedModule)
+      return factory() as T
+    }
+    const importSelected = async ([remoteName, exposedModule, select]: ExposedModuleReference) => {
+      const exports = await importExposed<Record<string, unknown>>(remoteName, exposedModule)
+      return select ? select(exports) : exports
+    }
+    const importBoth = (a: ExposedModuleReference, b: ExposedModuleReference) =>
+      Promise.all([importSelected(a), importSelected(b)])
+    const describe = ([remoteName, exposedModule]: ExposedModuleReference) => `${exposedModule} of ${remoteName}`
+
+    return {
+      context,
+      importExposed,
+      async assertSameInstance(a, b, message) {
+        const [instanceA, instanceB] = await importBoth(a, b)
+        assert.ok(
+          instanceA === instanceB,
+          message ?? `Expected ${describe(a)} and ${describe(b)} to be the same instance`
+        )
+      },
+      async assertDifferentInstance(a, b, message) {
+        const [instanceA, instanceB] = await importBoth(a, b)
+        assert.ok(
+          instanceA !== instanceB,
+          message ?? `Expected ${describe(a)} and ${describe(b)} to be different instances`
+        )
+      },
+      dispose,
+    }
+  } catch (error) {
+    dispose()
+    throw error
+  }
+}
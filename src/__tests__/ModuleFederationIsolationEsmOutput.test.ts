@@ -0,0 +1,92 @@
+import { execFile } from 'child_process'
+import fs from 'fs'
+import os from 'os'
+import path from 'path'
+import { pathToFileURL } from 'url'
+import { promisify } from 'util'
+import webpack from 'webpack'
+import { PluginOptions, StateStrategy } from '../ModuleFederationIsolationPlugin'
+import { compile } from '../ModuleFederationIsolationTestHarness'
+import { createHostAndRemoteConfigs, FIXTURES_PATH } from './remotes'
+
+const REMOTE_ENTRY_FILENAME = 'remoteEntry.mjs'
+
+type ExportReference = [remoteName: string, exposedModule: string, exportName: string]
+
+// Builds the remotes of the script output suites as native ES modules
+async function buildRemotes(pluginOptions: Partial<PluginOptions>, outputRoot: string): Promise<void> {
+  const configs = createHostAndRemoteConfigs(pluginOptions, {
+    moduleFederationOptions: { filename: REMOTE_ENTRY_FILENAME, library: { type: 'module' } },
+    config: { experiments: { outputModule: true } },
+  })
+  for (const [index, name] of ['host', 'remote'].entries()) {
+    const outputPath = path.join(outputRoot, name)
+    await compile(webpack, {
+      ...configs[index],
+      output: { path: outputPath, publicPath: `${pathToFileURL(outputPath).href}/`, module: true },
+    })
+  }
+}
+
+// Returns an instance ID per reference, equal for references to the same instance
+async function getInstanceIds(outputRoot: string, references: ExportReference[]): Promise<number[]> {
+  const remoteEntryUrls = Object.fromEntries(
+    ['host', 'remote'].map((name) => [name, pathToFileURL(path.join(outputRoot, name, REMOTE_ENTRY_FILENAME)).href])
+  )
+  const { stdout } = await promisify(execFile)(process.execPath, [
+    path.join(FIXTURES_PATH, 'esm', 'load-exposed.mjs'),
+    JSON.stringify(remoteEntryUrls),
+    JSON.stringify(references),
+  ])
+  return JSON.parse(stdout)
+}
+
+describe('ModuleFederationIsolationPlugin with ESM output', () => {
+  jest.setTimeout(120000)
+
+  let outputRoot: string
+
+  beforeEach(() => {
+    outputRoot = fs.mkdtempSync(path.join(os.tmpdir(), 'mfi-esm-output-'))
+  })
+  afterEach(() => fs.rmSync(outputRoot, { recursive: true, force: true }))
+
+  it('shares the instance of the origin host with the use-origin strategy', async () => {
+    await buildRemotes({ stateStrategy: StateStrategy.UseOrigin }, outputRoot)
+    const [hostState, remoteState, hostHelperState, remoteHelperState] = await getInstanceIds(outputRoot, [
+      ['host', './counter', 'state'],
+      ['remote', './counter', 'state'],
+      ['host', './counter', 'helperState'],
+      ['remote', './counter', 'helperState'],
+    ])
+
+    expect(remoteState).toBe(hostState)
+    expect(remoteHelperState).toBe(hostHelperState)
+  })
+
+  it('instantiates the shared dependency again with the isolate strategy', async () => {
+    await buildRemotes({ stateStrategy: StateStrategy.Isolate }, outputRoot)
+    const [hostState, remoteState, hostHelperState, remoteHelperState] = await getInstanceIds(outputRoot, [
+      ['host', './counter', 'state'],
+      ['remote', './counter', 'state'],
+      ['host', './counter', 'helperState'],
+      ['remote', './counter', 'helperState'],
+    ])
+
+    expect(remoteState).not.toBe(hostState)
+    expect(remoteHelperState).not.toBe(hostHelperState)
+  })
+
+  it('translates the dependencies of the shared dependency to own modules with the reuse-own strategy', async () => {
+    await buildRemotes({ stateStrategy: StateStrategy.ReuseOwn }, outputRoot)
+    const [hostState, remoteState, remoteHelperState, ownHelperState] = await getInstanceIds(outputRoot, [
+      ['host', './counter', 'state'],
+      ['remote', './counter', 'state'],
+      ['remote', './counter', 'helperState'],
+      ['remote', './helper', 'state'],
+    ])
+
+    expect(remoteState).not.toBe(hostState)
+    expect(remoteHelperState).toBe(ownHelperState)
+  })
+})
@@ -0,0 +1,325 @@
+import fs from 'fs'
+import os from 'os'
+import path from 'path'
+import webpack, { Compiler, Configuration, Stats } from 'webpack'
+import {
+  ManifestLoading,
+  ModuleFederationIsolationPlugin,
+  PluginOptions,
+  StateStrategy,
+} from '../ModuleFederationIsolationPlugin'
+import { createRemoteConfig, FIXTURES_PATH } from './remotes'
+
+function createHostConfig(
+  pluginOptions: Partial<PluginOptions>,
+  outputPath: string,
+  config: Configuration = {}
+): Configuration {
+  // The logger package is only imported by the exposed module, not by any shared dependency
+  const exposes = { './counter': './src/counter.js', './logger': './src/logger.js' }
+  return createRemoteConfig('host', 'packages-b', exposes, pluginOptions, {
+    config: { target: undefined, output: { path: outputPath }, ...config },
+  })
+}
+
+function compileHost(
+  outputPath: string,
+  pluginOptions: Partial<PluginOptions> = {},
+  config: Configuration = {}
+): Promise<Stats> {
+  return new Promise((resolve, reject) => {
+    const compiler = webpack(createHostConfig(pluginOptions, outputPath, config))
+    compiler.run((error, stats) => {
+      compiler.close(() => (error || !stats ? reject(error) : resolve(stats)))
+    })
+  })
+}
+
+// Runs a child compiler in the output directory of the host, as html-webpack-plugin does for its templates
+class ChildCompilerPlugin {
+  apply(compiler: Compiler) {
+    compiler.hooks.make.tapAsync('ChildCompilerPlugin', (compilation, callback) => {
+      const childCompiler = compilation.createChildCompiler('ChildCompilerPlugin', { filename: 'child.js' }, [])
+      // Hint: plugins given to createChildCompiler lose their compilation hooks, which are copied from the parent
+      new compiler.webpack.EntryPlugin(compiler.context, './src/counter.js', { name: 'child' }).apply(childCompiler)
+      childCompiler.runAsChild((error) => callback(error ?? undefined))
+    })
+  }
+}
+
+describe('ModuleFederationIsolationPlugin', () => {
+  describe('sharedDependencies', () => {
+    it('accepts regular expression keys', () => {
+      expect(
+        () =>
+          new ModuleFederationIsolationPlugin({
+            sharedDependencies: { '/^@acme\\/(ui|forms)-/i': { stateStrategy: StateStrategy.UseOrigin } },
+          })
+      ).not.toThrow()
+    })
+
+    it.each(['/^@acme\\//g', '/^@acme\\//y'])('rejects the stateful flags of %s', (key) => {
+      expect(
+        () =>
+          new ModuleFederationIsolationPlugin({
+            sharedDependencies: { [key]: { stateStrategy: StateStrategy.Isolate } },
+          })
+      ).toThrow(`the sharedDependencies key ${key} can't use the 'g' or 'y' flags`)
+    })
+
+    it('rejects invalid regular expressions', () => {
+      expect(
+        () =>
+          new ModuleFederationIsolationPlugin({
+            sharedDependencies: { '/^@acme(/': { stateStrategy: StateStrategy.Isolate } },
+          })
+      ).toThrow('the sharedDependencies key /^@acme(/ is not a valid regular expression')
+    })
+  })
+
+  describe('entry', () => {
+    it.each([
+      ['the given remote entry', 'host', true],
+      ['any remote entry when empty', '', true],
+      ['no other remote entry', ['shell', 'checkout'], false],
+    ])('applies to %s', (_, entry, isApplied) => {
+      const config = createHostConfig({ entry }, os.tmpdir())
+      webpack(config)
+
+      const moduleFederationPlugin = config.plugins?.[1] as unknown as { _options: { runtimePlugins?: string[] } }
+      expect(
+        (moduleFederationPlugin._options.runtimePlugins ?? []).some((runtimePlugin) =>
+          runtimePlugin.includes('ModuleFederationIsolationRuntimePlugin')
+        )
+      ).toBe(isApplied)
+    })
+  })
+
+  describe('runtime plugin', () => {
+    jest.setTimeout(60000)
+
+    let outputPath: string
+
+    beforeEach(() => {
+      outputPath = fs.mkdtempSync(path.join(os.tmpdir(), 'mfi-runtime-plugin-'))
+    })
+    afterEach(() => fs.rmSync(outputPath, { recursive: true, force: true }))
+
+    it('is generated without writing files to the project', async () => {
+      const stats = await compileHost(outputPath, { isolationGroup: `check'out "\\n` })
+
+      expect(stats.toJson({ all: false, errors: true }).errors).toEqual([])
+      expect(fs.existsSync(path.join(FIXTURES_PATH, 'host', 'node_modules'))).toBe(false)
+    })
+  })
+
+  describe('isolation stats', () => {
+    jest.setTimeout(60000)
+
+    let outputPath: string
+    let stats: Stats
+
+    beforeAll(async () => {
+      outputPath = fs.mkdtempSync(path.join(os.tmpdir(), 'mfi-stats-'))
+      stats = await compileHost(outputPath)
+    })
+    afterAll(() => fs.rmSync(outputPath, { recursive: true, force: true }))
+
+    it('are not added by default', () => {
+      expect(stats.toJson()).not.toHaveProperty('isolation')
+      expect(stats.toJson('errors-only')).not.toHaveProperty('isolation')
+    })
+
+    it.each([{ isolation: true }, { all: true }])('are added with %p', (statsOptions) => {
+      expect(stats.toJson(statsOptions as webpack.StatsOptions)).toHaveProperty(
+        'isolation.sharedDependencies.counter.stateStrategy',
+        StateStrategy.Isolate
+      )
+    })
+
+    it('are not added with all: true when isolation is false', () => {
+      expect(stats.toJson({ all: true, isolation: false } as webpack.StatsOptions)).not.toHaveProperty('isolation')
+    })
+  })
+
+  describe('manifestPruning', () => {
+    jest.setTimeout(60000)
+
+    let outputPath: string
+
+    beforeEach(() => {
+      outputPath = fs.mkdtempSync(path.join(os.tmpdir(), 'mfi-pruning-'))
+    })
+    afterEach(() => fs.rmSync(outputPath, { recursive: true, force: true }))
+
+    const readManifestPackages = () =>
+      Object.keys(JSON.parse(fs.readFileSync(path.join(outputPath, 'mf-isolation-manifest.json'), 'utf-8')).packages)
+
+    it('keeps every bundled package by default', async () => {
+      await compileHost(outputPath, { manifestFilename: 'mf-isolation-manifest.json' })
+
+      expect(readManifestPackages()).toEqual(expect.arrayContaining(['counter', 'helper', 'logger', 'semver']))
+    })
+
+    it('drops the packages unreachable from shared modules', async () => {
+      const stats = await compileHost(outputPath, {
+        manifestFilename: 'mf-isolation-manifest.json',
+        manifestPruning: true,
+      })
+
+      expect(readManifestPackages().sort()).toEqual(['counter', 'helper'])
+      expect(stats.toString({ all: false, logging: 'info' })).toMatch(/Pruned modules unreachable .*, saving \d+ bytes/)
+    })
+  })
+
+  describe('loaderIdentity', () => {
+    jest.setTimeout(60000)
+
+    let outputPath: string
+
+    beforeEach(() => {
+      outputPath = fs.mkdtempSync(path.join(os.tmpdir(), 'mfi-loader-identity-'))
+    })
+    afterEach(() => fs.rmSync(outputPath, { recursive: true, force: true }))
+
+    const loader = path.join(FIXTURES_PATH, 'packages-b', 'passthrough-loader', 'index.js')
+
+    // Builds the host with the counter package processed by the loader and reads the paths of its modules
+    const compileCounterModulePaths = async (
+      options: Record<string, unknown>,
+      pluginOptions: Partial<PluginOptions> = {}
+    ) => {
+      await compileHost(
+        outputPath,
+        { manifestFilename: 'mf-isolation-manifest.json', ...pluginOptions },
+        { module: { rules: [{ test: /counter[\\/]index\.js$/, use: [{ loader, options }] }] } }
+      )
+      const manifest = JSON.parse(fs.readFileSync(path.join(outputPath, 'mf-isolation-manifest.json'), 'utf-8'))
+      return Object.keys(manifest.packages.counter['1.1.0'].modulePathToModuleId)
+    }
+
+    it('identifies modules by the canonical options of their loaders', async () => {
+      const modulePaths = await compileCounterModulePaths({
+        include: path.join(FIXTURES_PATH, 'host', 'src'),
+        modules: true,
+      })
+
+      expect(modulePaths).toEqual(['index.js?passthrough-loader@index.js?{"include":"src","modules":true}'])
+      expect(
+        await compileCounterModulePaths({ modules: true, include: path.join(FIXTURES_PATH, 'host', 'src') })
+      ).toEqual(modulePaths)
+    })
+
+    it('leaves the ignored options out of the identity', async () => {
+      const pluginOptions = { loaderIdentity: { 'passthrough-loader': { ignoredOptions: ['cacheDirectory'] } } }
+      const modulePaths = await compileCounterModulePaths({ cacheDirectory: 'a', modules: true }, pluginOptions)
+
+      expect(await compileCounterModulePaths({ cacheDirectory: 'b', modules: true }, pluginOptions)).toEqual(
+        modulePaths
+      )
+    })
+
+    it('uses the fixed identity of a loader', async () => {
+      const modulePaths = await compileCounterModulePaths(
+        { modules: true },
+        { loaderIdentity: { 'passthrough-loader': { identity: 'v1' } } }
+      )
+
+      expect(modulePaths).toEqual(['index.js?passthrough-loader@index.js?v1'])
+    })
+  })
+
+  describe('package descriptions', () => {
+    jest.setTimeout(60000)
+
+    let fixturesPath: string
+
+    beforeEach(() => {
+      fixturesPath = fs.mkdtempSync(path.join(os.tmpdir(), 'mfi-package-descriptions-'))
+      fs.cpSync(FIXTURES_PATH, fixturesPath, { recursive: true })
+    })
+    afterEach(() => fs.rmSync(fixturesPath, { recursive: true, force: true }))
+
+    it('are read again in every compilation', async () => {
+      const outputPath = path.join(fixturesPath, 'dist')
+      const compiler = webpack(
+        createHostConfig({ manifestFilename: 'mf-isolation-manifest.json' }, outputPath, {
+          context: path.join(fixturesPath, 'host'),
+          resolve: { modules: [path.join(fixturesPath, 'packages-b'), 'node_modules'] },
+        })
+      )
+      const run = () =>
+        new Promise<void>((resolve, reject) => compiler.run((error) => (error ? reject(error) : resolve())))
+      const readCounterVersions = () =>
+        Object.keys(
+          JSON.parse(fs.readFileSync(path.join(outputPath, 'mf-isolation-manifest.json'), 'utf-8')).packages.counter
+        )
+
+      try {
+        await run()
+        expect(readCounterVersions()).toEqual(['1.1.0'])
+
+        const packageJsonPath = path.join(fixturesPath, 'packages-b', 'counter', 'package.json')
+        const packageJson = JSON.parse(fs.readFileSync(packageJsonPath, 'utf-8'))
+        fs.writeFileSync(packageJsonPath, JSON.stringify({ ...packageJson, version: '1.2.0' }))
+        await run()
+        expect(readCounterVersions()).toEqual(['1.2.0'])
+      } finally {
+        await new Promise((resolve) => compiler.close(resolve))
+      }
+    })
+  })
+
+  describe('with a child compiler', () => {
+    jest.setTimeout(60000)
+
+    let outputPath: string
+
+    beforeEach(() => {
+      outputPath = fs.mkdtempSync(path.join(os.tmpdir(), 'mfi-child-compiler-'))
+    })
+    afterEach(() => fs.rmSync(outputPath, { recursive: true, force: true }))
+
+    it('emits the manifest of the remote only', async () => {
+      const stats = await compileHost(
+        outputPath,
+        { manifestFilename: 'mf-isolation-manifest.json' },
+        {
+          plugins: [new ChildCompilerPlugin()],
+        }
+      )
+
+      expect(stats.toJson({ all: false, errors: true }).errors).toEqual([])
+      const manifest = JSON.parse(fs.readFileSync(path.join(outputPath, 'mf-isolation-manifest.json'), 'utf-8'))
+      expect(Object.keys(manifest.consumeSharedRedirection)).not.toHaveLength(0)
+    })
+
+    it('emits the report of the remote only', async () => {
+      const stats = await compileHost(
+        outputPath,
+        { reportFilename: 'mf-isolation-report.html' },
+        {
+          plugins: [new ChildCompilerPlugin()],
+        }
+      )
+
+      expect(stats.toJson({ all: false, errors: true }).errors).toEqual([])
+      expect(fs.readFileSync(path.join(outputPath, 'mf-isolation-report.html'), 'utf-8')).toContain('counter')
+    })
+
+    it('emits the lazy manifest of the remote only', async () => {
+      const stats = await compileHost(
+        outputPath,
+        { manifestLoading: ManifestLoading.Lazy },
+        {
+          plugins: [new ChildCompilerPlugin()],
+        }
+      )
+
+      expect(stats.toJson({ all: false, errors: true }).errors).toEqual([])
+      expect(
+        fs.readdirSync(outputPath).filter((filename) => filename.startsWith('mf-isolation-packages.'))
+      ).toHaveLength(1)
+    })
+  })
+})
@@ -0,0 +1,70 @@
+import { rspack } from '@rspack/core'
+import { ModuleFederationPlugin } from '@module-federation/enhanced/rspack'
+import { PluginOptions, StateStrategy } from '../ModuleFederationIsolationPlugin'
+import {
+  createIsolationTestHarness,
+  IsolationTestHarness,
+  IsolationTestHarnessOptions,
+} from '../ModuleFederationIsolationTestHarness'
+import { createHostAndRemoteConfigs, RemoteConfigOptions, selectHelperState, selectState } from './remotes'
+
+function createHarness(pluginOptions: Partial<PluginOptions>): Promise<IsolationTestHarness> {
+  return createIsolationTestHarness({
+    createCompiler: rspack as unknown as IsolationTestHarnessOptions['createCompiler'],
+    remotes: createHostAndRemoteConfigs(pluginOptions, {
+      ModuleFederationPlugin: ModuleFederationPlugin as unknown as RemoteConfigOptions['ModuleFederationPlugin'],
+    }),
+  })
+}
+
+describe('ModuleFederationIsolationPlugin with Rspack', () => {
+  jest.setTimeout(120000)
+
+  describe('with the use-origin strategy', () => {
+    let harness: IsolationTestHarness
+
+    beforeAll(async () => {
+      harness = await createHarness({ stateStrategy: StateStrategy.UseOrigin })
+    })
+    afterAll(() => harness?.dispose())
+
+    it('shares the instance of the origin host', async () => {
+      await harness.assertSameInstance(['host', './counter', selectState], ['remote', './counter', selectState])
+      await harness.assertSameInstance(
+        ['host', './counter', selectHelperState],
+        ['remote', './counter', selectHelperState]
+      )
+    })
+  })
+
+  describe('with the isolate strategy', () => {
+    let harness: IsolationTestHarness
+
+    beforeAll(async () => {
+      harness = await createHarness({ stateStrategy: StateStrategy.Isolate })
+    })
+    afterAll(() => harness?.dispose())
+
+    it('instantiates the shared dependency and its dependencies again', async () => {
+      await harness.assertDifferentInstance(['host', './counter', selectState], ['remote', './counter', selectState])
+      await harness.assertDifferentInstance(
+        ['host', './counter', selectHelperState],
+        ['remote', './counter', selectHelperState]
+      )
+    })
+  })
+
+  describe('with the reuse-own strategy', () => {
+    let harness: IsolationTestHarness
+
+    beforeAll(async () => {
+      harness = await createHarness({ stateStrategy: StateStrategy.ReuseOwn })
+    })
+    afterAll(() => harness?.dispose())
+
+    it('translates the dependencies of the shared dependency to own modules', async () => {
+      await harness.assertDifferentInstance(['host', './counter', selectState], ['remote', './counter', selectState])
+      await harness.assertSameInstance(['remote', './counter', selectHelperState], ['remote', './helper', selectState])
+    })
+  })
+})
@@ -0,0 +1,607 @@
+import { AsyncLocalStorage } from 'async_hooks'
+import path from 'path'
+import vm from 'vm'
+import webpack from 'webpack'
+import { ManifestLoading, PluginOptions, StateStrategy } from '../ModuleFederationIsolationPlugin'
+import {
+  disposeIsolationNamespace,
+  disposeIsolationOriginHost,
+  IsolationScope,
+  IsolationSnapshot,
+  runInIsolationScope,
+  setIsolationScopeStorage,
+} from '../ModuleFederationIsolationRuntimePlugin'
+import { createIsolationTestHarness, IsolationTestHarness } from '../ModuleFederationIsolationTestHarness'
+import {
+  createHostAndRemoteConfigs,
+  createRemoteConfig,
+  FIXTURES_PATH,
+  RemoteConfigOptions,
+  selectHelperState,
+  selectState,
+} from './remotes'
+
+function createHarness(
+  pluginOptions: Partial<PluginOptions>,
+  remoteConfigOptions?: RemoteConfigOptions
+): Promise<IsolationTestHarness> {
+  return createIsolationTestHarness({
+    createCompiler: webpack,
+    remotes: createHostAndRemoteConfigs(pluginOptions, remoteConfigOptions),
+  })
+}
+
+function getHostRequire(harness: IsolationTestHarness, hostName: string) {
+  const host = harness.context.__FEDERATION__.__INSTANCES__.find(({ name }: { name: string }) => name === hostName)
+  return host.__webpack_require__
+}
+
+function getIsolation(harness: IsolationTestHarness, hostName: string) {
+  return getHostRequire(harness, hostName).federation.isolation
+}
+
+function getIsolationSnapshot(harness: IsolationTestHarness, hostName: string): IsolationSnapshot {
+  return getIsolation(harness, hostName).getSnapshot()
+}
+
+describe('ModuleFederationIsolationRuntimePlugin', () => {
+  jest.setTimeout(120000)
+
+  describe('with the use-origin strategy', () => {
+    let harness: IsolationTestHarness
+
+    beforeAll(async () => {
+      harness = await createHarness({ stateStrategy: StateStrategy.UseOrigin })
+    })
+    afterAll(() => harness?.dispose())
+
+    it('shares the instance of the origin host', async () => {
+      await harness.assertSameInstance(['host', './counter', selectState], ['remote', './counter', selectState])
+    })
+
+    it('keeps the dependencies of the shared dependency in the origin host', async () => {
+      await harness.assertSameInstance(
+        ['host', './counter', selectHelperState],
+        ['remote', './counter', selectHelperState]
+      )
+      await harness.assertDifferentInstance(
+        ['remote', './counter', selectHelperState],
+        ['remote', './helper', selectState]
+      )
+    })
+  })
+
+  describe('with the isolate strategy', () => {
+    let harness: IsolationTestHarness
+
+    beforeAll(async () => {
+      harness = await createHarness({ stateStrategy: StateStrategy.Isolate })
+    })
+    afterAll(() => harness?.dispose())
+
+    it('instantiates the shared dependency again', async () => {
+      await harness.assertDifferentInstance(['host', './counter', selectState], ['remote', './counter', selectState])
+    })
+
+    it('instantiates the dependencies of the shared dependency again', async () => {
+      await harness.assertDifferentInstance(
+        ['host', './counter', selectHelperState],
+        ['remote', './counter', selectHelperState]
+      )
+      await harness.assertDifferentInstance(
+        ['remote', './counter', selectHelperState],
+        ['remote', './helper', selectState]
+      )
+    })
+  })
+
+  describe('with the reuse-own strategy', () => {
+    let harness: IsolationTestHarness
+
+    beforeAll(async () => {
+      harness = await createHarness({ stateStrategy: StateStrategy.ReuseOwn })
+    })
+    afterAll(() => harness?.dispose())
+
+    it('instantiates the shared dependency again', async () => {
+      await harness.assertDifferentInstance(['host', './counter', selectState], ['remote', './counter', selectState])
+    })
+
+    it('translates the dependencies of the shared dependency to own modules', async () => {
+      await harness.assertSameInstance(['remote', './counter', selectHelperState], ['remote', './helper', selectState])
+      await harness.assertDifferentInstance(
+        ['host', './counter', selectHelperState],
+        ['remote', './counter', selectHelperState]
+      )
+    })
+  })
+
+  describe('with the reuse-own strategy and own modules instantiated first', () => {
+    let harness: IsolationTestHarness
+
+    beforeAll(async () => {
+      harness = await createHarness({ stateStrategy: StateStrategy.ReuseOwn })
+    })
+    afterAll(() => harness?.dispose())
+
+    it('records the translations to the instantiated own modules', async () => {
+      await harness.importExposed('remote', './helper')
+      await harness.assertSameInstance(['remote', './counter', selectHelperState], ['remote', './helper', selectState])
+
+      const translations = getIsolationSnapshot(harness, 'remote').namespaces.flatMap(
+        ({ translations }) => translations
+      )
+      expect(translations).toContainEqual(
+        expect.objectContaining({
+          originHost: 'host',
+          ownModuleId: expect.stringContaining('packages-a/helper'),
+          instantiated: true,
+        })
+      )
+    })
+  })
+
+  describe('when disposing a namespace with the reuse-own strategy', () => {
+    let harness: IsolationTestHarness
+
+    beforeAll(async () => {
+      harness = await createHarness({ stateStrategy: StateStrategy.ReuseOwn })
+    })
+    afterAll(() => harness?.dispose())
+
+    it('disposes the origin instances stored under own module IDs', async () => {
+      // Own helper is not instantiated yet, so the one of the origin host is stored as the own one
+      const { helperState } = await harness.importExposed<Record<string, unknown>>('remote', './counter')
+      const [{ namespace }] = getIsolationSnapshot(harness, 'remote').namespaces
+
+      expect(getIsolation(harness, 'remote').dispose(namespace)).toBe(true)
+
+      const { state } = await harness.importExposed<Record<string, unknown>>('remote', './helper')
+      expect(state).not.toBe(helperState)
+    })
+
+    it('keeps the namespace for its consumers', () => {
+      expect(getIsolationSnapshot(harness, 'remote').namespaces).toEqual([
+        expect.objectContaining({ strategy: 'reuse-own', translations: [] }),
+      ])
+    })
+  })
+
+  describe('with shared dependencies importing modules asynchronously', () => {
+    type LazyExports = { state: unknown; loadPart: () => Promise<{ state: unknown }> }
+    let harness: IsolationTestHarness
+
+    beforeAll(async () => {
+      harness = await createHarness(
+        { stateStrategy: StateStrategy.Isolate },
+        { moduleFederationOptions: { exposes: { './lazy': './src/lazy.js' }, shared: { counter: {}, lazy: {} } } }
+      )
+    })
+    afterAll(() => harness?.dispose())
+
+    it('loads the chunks of the origin host to instantiate them again', async () => {
+      const remoteLazy = await harness.importExposed<LazyExports>('remote', './lazy')
+      // Hint: the origin host has not loaded the chunk of the part yet
+      const remotePart = await remoteLazy.loadPart()
+      const hostLazy = await harness.importExposed<LazyExports>('host', './lazy')
+      const hostPart = await hostLazy.loadPart()
+
+      expect(remoteLazy.state).not.toBe(hostLazy.state)
+      expect(remotePart.state).toEqual({ name: 'part' })
+      expect(remotePart.state).not.toBe(hostPart.state)
+      const translations = getIsolationSnapshot(harness, 'remote').namespaces.flatMap(
+        ({ translations }) => translations
+      )
+      expect(translations).toContainEqual(
+        expect.objectContaining({
+          originHost: 'host',
+          originModuleId: expect.stringContaining('packages-b/lazy/part.js'),
+          instantiated: true,
+        })
+      )
+    })
+  })
+
+  describe('when disposing a namespace with the isolate strategy', () => {
+    let harness: IsolationTestHarness
+
+    beforeAll(async () => {
+      harness = await createHarness({ stateStrategy: StateStrategy.Isolate })
+    })
+    afterAll(() => harness?.dispose())
+
+    it('removes the isolated instances from the cache of the consuming host', async () => {
+      await harness.importExposed('remote', './counter')
+      const [{ namespace }] = getIsolationSnapshot(harness, 'remote').namespaces
+      const remoteRequire = getHostRequire(harness, 'remote')
+
+      expect(disposeIsolationNamespace(namespace, {}, remoteRequire)).toBe(true)
+      expect(Object.keys(remoteRequire.c).filter((moduleId) => moduleId.startsWith(`${namespace}/`))).toEqual([])
+      expect(getIsolationSnapshot(harness, 'remote').namespaces).toEqual([
+        expect.objectContaining({ namespace, translations: [] }),
+      ])
+    })
+
+    it('needs the require of the host outside of a bundle', () => {
+      expect(() => disposeIsolationNamespace('mfi/remote/counter/1.1.0')).toThrow(
+        'disposeIsolationNamespace needs the __webpack_require__ of a host outside of a bundle'
+      )
+      expect(() => disposeIsolationOriginHost('host')).toThrow(
+        'disposeIsolationOriginHost needs the __webpack_require__ of a host outside of a bundle'
+      )
+    })
+  })
+
+  describe('with an isolation group', () => {
+    let harness: IsolationTestHarness
+
+    beforeAll(async () => {
+      // The origin host and the outsider are not members of the group
+      const pluginOptions = { stateStrategy: StateStrategy.Isolate }
+      const memberPluginOptions = { ...pluginOptions, isolationGroup: 'checkout' }
+      const [hostConfig] = createHostAndRemoteConfigs(pluginOptions)
+      const [, remoteConfig] = createHostAndRemoteConfigs(memberPluginOptions)
+      harness = await createIsolationTestHarness({
+        createCompiler: webpack,
+        remotes: [
+          hostConfig,
+          remoteConfig,
+          createRemoteConfig('member', 'packages-a', { './counter': './src/counter.js' }, memberPluginOptions, {
+            fixture: 'remote',
+          }),
+          createRemoteConfig('outsider', 'packages-a', { './counter': './src/counter.js' }, pluginOptions, {
+            fixture: 'remote',
+          }),
+        ],
+      })
+    })
+    afterAll(() => harness?.dispose())
+
+    it('shares one isolated instance among the members of the group', async () => {
+      await harness.assertSameInstance(['remote', './counter', selectState], ['member', './counter', selectState])
+      await harness.assertSameInstance(
+        ['remote', './counter', selectHelperState],
+        ['member', './counter', selectHelperState]
+      )
+      await harness.assertDifferentInstance(['host', './counter', selectState], ['remote', './counter', selectState])
+    })
+
+    it('keeps the remotes out of the group separate', async () => {
+      await harness.assertDifferentInstance(
+        ['remote', './counter', selectState],
+        ['outsider', './counter', selectState]
+      )
+    })
+
+    it('disposes the instances of the group through the origin host', async () => {
+      await harness.importExposed('remote', './counter')
+      const hostRequire = getHostRequire(harness, 'host')
+      const groupNamespace = 'mfi/@checkout/counter/1.1.0'
+      expect(Object.keys(hostRequire.c)).toContainEqual(expect.stringMatching(`^${groupNamespace}/`))
+
+      getIsolation(harness, 'host').disposeOriginHost('host')
+      expect(Object.keys(hostRequire.c).filter((moduleId) => moduleId.startsWith(`${groupNamespace}/`))).toEqual([])
+      expect(getIsolationSnapshot(harness, 'host').namespaces).toContainEqual(
+        expect.objectContaining({ namespace: groupNamespace, translations: [] })
+      )
+    })
+  })
+
+  describe('with pattern shared dependency rules', () => {
+    let harness: IsolationTestHarness
+
+    beforeAll(async () => {
+      const sharedDependencies = { '/^count/': { stateStrategy: StateStrategy.UseOrigin } }
+      const pluginOptions = { stateStrategy: StateStrategy.Isolate, sharedDependencies }
+      // Globs take precedence over regular expressions in the outsider
+      const outsiderPluginOptions = {
+        ...pluginOptions,
+        sharedDependencies: { ...sharedDependencies, 'count*': { stateStrategy: StateStrategy.Isolate } },
+      }
+      harness = await createIsolationTestHarness({
+        createCompiler: webpack,
+        remotes: [
+          ...createHostAndRemoteConfigs(pluginOptions),
+          createRemoteConfig('outsider', 'packages-a', { './counter': './src/counter.js' }, outsiderPluginOptions, {
+            fixture: 'remote',
+          }),
+        ],
+      })
+    })
+    afterAll(() => harness?.dispose())
+
+    it('applies the rules of matching regular expressions', async () => {
+      await harness.assertSameInstance(['host', './counter', selectState], ['remote', './counter', selectState])
+    })
+
+    it('applies the rules of matching globs first', async () => {
+      await harness.assertDifferentInstance(['host', './counter', selectState], ['outsider', './counter', selectState])
+      expect(getIsolationSnapshot(harness, 'outsider').namespaces).toContainEqual(
+        expect.objectContaining({ namespace: 'mfi/outsider/counter/1.1.0' })
+      )
+    })
+  })
+
+  describe('with per origin host rules', () => {
+    let harness: IsolationTestHarness
+
+    beforeAll(async () => {
+      const counterRule = { stateStrategy: StateStrategy.Isolate }
+      const pluginOptions = {
+        sharedDependencies: {
+          counter: { ...counterRule, origins: { host: { stateStrategy: StateStrategy.UseOrigin } } },
+        },
+      }
+      // The outsider only trusts another origin host
+      const outsiderPluginOptions = {
+        sharedDependencies: {
+          counter: { ...counterRule, origins: { shell: { stateStrategy: StateStrategy.UseOrigin } } },
+        },
+      }
+      harness = await createIsolationTestHarness({
+        createCompiler: webpack,
+        remotes: [
+          ...createHostAndRemoteConfigs(pluginOptions),
+          createRemoteConfig('outsider', 'packages-a', { './counter': './src/counter.js' }, outsiderPluginOptions, {
+            fixture: 'remote',
+          }),
+        ],
+      })
+    })
+    afterAll(() => harness?.dispose())
+
+    it('applies the strategy of the origin host', async () => {
+      await harness.assertSameInstance(['host', './counter', selectState], ['remote', './counter', selectState])
+    })
+
+    it('applies the strategy of the rule to other origin hosts', async () => {
+      await harness.assertDifferentInstance(['host', './counter', selectState], ['outsider', './counter', selectState])
+      expect(getIsolationSnapshot(harness, 'outsider').namespaces).toContainEqual(
+        expect.objectContaining({ namespace: 'mfi/outsider/counter/1.1.0' })
+      )
+    })
+  })
+
+  describe('with singleton shared dependencies', () => {
+    let harness: IsolationTestHarness
+
+    beforeAll(async () => {
+      const pluginOptions = { stateStrategy: StateStrategy.Isolate, respectSingletons: true }
+      const remoteConfigOptions = { moduleFederationOptions: { shared: { counter: { singleton: true } } } }
+      harness = await createIsolationTestHarness({
+        createCompiler: webpack,
+        remotes: [
+          ...createHostAndRemoteConfigs(pluginOptions, remoteConfigOptions),
+          // The outsider isolates the singleton on purpose
+          createRemoteConfig(
+            'outsider',
+            'packages-a',
+            { './counter': './src/counter.js' },
+            { ...pluginOptions, sharedDependencies: { counter: { stateStrategy: StateStrategy.Isolate } } },
+            { ...remoteConfigOptions, fixture: 'remote' }
+          ),
+        ],
+      })
+    })
+    afterAll(() => harness?.dispose())
+
+    it('uses the instance of the origin host', async () => {
+      await harness.assertSameInstance(['host', './counter', selectState], ['remote', './counter', selectState])
+    })
+
+    it('isolates the singletons matched by a shared dependency rule', async () => {
+      await harness.assertDifferentInstance(['host', './counter', selectState], ['outsider', './counter', selectState])
+      expect(getIsolationSnapshot(harness, 'outsider').namespaces).toContainEqual(
+        expect.objectContaining({ namespace: 'mfi/outsider/counter/1.1.0' })
+      )
+    })
+  })
+
+  describe('with options containing special characters', () => {
+    const isolationGroup = `check'out "\\n`
+    let harness: IsolationTestHarness
+
+    beforeAll(async () => {
+      const pluginOptions = { stateStrategy: StateStrategy.Isolate }
+      const memberPluginOptions = { ...pluginOptions, isolationGroup }
+      const [hostConfig] = createHostAndRemoteConfigs(pluginOptions)
+      const [, remoteConfig] = createHostAndRemoteConfigs(memberPluginOptions)
+      harness = await createIsolationTestHarness({
+        createCompiler: webpack,
+        remotes: [
+          hostConfig,
+          remoteConfig,
+          createRemoteConfig('member', 'packages-a', { './counter': './src/counter.js' }, memberPluginOptions, {
+            fixture: 'remote',
+          }),
+        ],
+      })
+    })
+    afterAll(() => harness?.dispose())
+
+    it('passes them to the runtime plugin unchanged', async () => {
+      await harness.assertSameInstance(['remote', './counter', selectState], ['member', './counter', selectState])
+      expect(getIsolationSnapshot(harness, 'host').namespaces).toContainEqual(
+        expect.objectContaining({ namespace: `mfi/@${isolationGroup}/counter/1.1.0` })
+      )
+    })
+  })
+
+  describe('with runtime hooks', () => {
+    let harness: IsolationTestHarness
+
+    beforeAll(async () => {
+      harness = await createHarness({
+        stateStrategy: StateStrategy.ReuseOwn,
+        runtimeHooks: path.join(FIXTURES_PATH, 'hooks', 'record-events.js'),
+      })
+    })
+    afterAll(() => harness?.dispose())
+
+    it('notifies the isolation decisions', async () => {
+      await harness.importExposed('remote', './counter')
+
+      const events = harness.context.isolationHookEvents
+      expect(events).toContainEqual([
+        'onResolveShare',
+        { ownHost: 'remote', originHost: 'host', pkgName: 'counter', version: '1.1.0', stateStrategy: 'reuse-own' },
+      ])
+      // Hint: the own packages of the remote have not been loaded yet, so the origin ones are stored in their place
+      expect(events).toContainEqual([
+        'onStoreOrigin',
+        expect.objectContaining({ originHost: 'host', pkgName: 'helper', ownPackageVersion: '1.0.0' }),
+      ])
+      expect(events).toContainEqual([
+        'onTranslate',
+        expect.objectContaining({
+          originHost: 'host',
+          originModuleId: expect.stringContaining('packages-b/helper'),
+          ownModuleId: expect.stringContaining('packages-a/helper'),
+        }),
+      ])
+    })
+  })
+
+  describe('with a runtime strategy resolver', () => {
+    let harness: IsolationTestHarness
+    let warn: jest.SpyInstance
+
+    beforeAll(async () => {
+      warn = jest.spyOn(console, 'warn').mockImplementation(() => undefined)
+      const pluginOptions = {
+        stateStrategy: StateStrategy.Isolate,
+        runtimeHooks: path.join(FIXTURES_PATH, 'hooks', 'resolve-strategy.js'),
+      }
+      harness = await createIsolationTestHarness({
+        createCompiler: webpack,
+        remotes: [
+          ...createHostAndRemoteConfigs(pluginOptions),
+          createRemoteConfig('outsider', 'packages-a', { './counter': './src/counter.js' }, pluginOptions, {
+            fixture: 'remote',
+          }),
+        ],
+      })
+    })
+    afterAll(() => {
+      warn.mockRestore()
+      return harness?.dispose()
+    })
+
+    it('uses the resolved strategy instead of the configured one', async () => {
+      await harness.assertSameInstance(['host', './counter', selectState], ['remote', './counter', selectState])
+    })
+
+    it('falls back to the highest strategy enabled at build time', async () => {
+      await harness.assertDifferentInstance(['host', './counter', selectState], ['outsider', './counter', selectState])
+      expect(warn).toHaveBeenCalledWith(
+        expect.stringContaining(
+          "Strategy 'reuse-own' resolved for counter was not enabled at build time, using 'isolate'"
+        )
+      )
+    })
+  })
+
+  describe('with lazy manifest loading', () => {
+    let harness: IsolationTestHarness
+
+    beforeAll(async () => {
+      harness = await createHarness({ stateStrategy: StateStrategy.ReuseOwn, manifestLoading: ManifestLoading.Lazy })
+    })
+    afterAll(() => harness?.dispose())
+
+    it('loads the package data to translate to own modules', async () => {
+      const fetch = jest.spyOn(harness.context, 'fetch')
+
+      await harness.assertSameInstance(['remote', './counter', selectHelperState], ['remote', './helper', selectState])
+      expect(fetch).toHaveBeenCalledWith(
+        expect.stringMatching(/^http:\/\/mfi\.test\/remote\/mf-isolation-packages\.\w+\.json$/)
+      )
+    })
+  })
+
+  describe('within isolation scopes', () => {
+    // Hint: the scopes are kept in a global registry, which is shared with the context of the harness
+    const ISOLATION_SCOPE_REGISTRY_KEY = Symbol.for('module-federation-isolation-plugin/isolation-scopes')
+    const globalRegistry = globalThis as unknown as Record<symbol, unknown>
+    let harness: IsolationTestHarness
+
+    beforeAll(async () => {
+      harness = await createIsolationTestHarness({
+        createCompiler: webpack,
+        remotes: createHostAndRemoteConfigs({ stateStrategy: StateStrategy.Isolate }),
+        remotesLoadedOnDemand: ['remote'],
+      })
+      // Hint: symbol keys of the global object of a context are not reflected in the context object
+      globalRegistry[ISOLATION_SCOPE_REGISTRY_KEY] = vm.runInContext(
+        "globalThis[Symbol.for('module-federation-isolation-plugin/isolation-scopes')]",
+        harness.context
+      )
+      setIsolationScopeStorage(new AsyncLocalStorage<IsolationScope>())
+    })
+    afterAll(() => {
+      delete globalRegistry[ISOLATION_SCOPE_REGISTRY_KEY]
+      harness?.dispose()
+    })
+
+    it('instantiates the modules of remotes loaded within a scope again in the next one', async () => {
+      const importState = () =>
+        runInIsolationScope(async () => selectState(await harness.importExposed('remote', './counter')))
+
+      const firstState = await importState()
+      const secondState = await importState()
+      expect(secondState).not.toBe(firstState)
+      await harness.assertDifferentInstance(['host', './counter', selectState], ['remote', './counter', selectState])
+    })
+  })
+
+  describe('with hot module replacement', () => {
+    type ApplyHandler = (options: unknown) => { dispose?: () => void; apply?: () => void }
+    let harness: IsolationTestHarness
+    let counterModuleId: string
+
+    beforeAll(async () => {
+      harness = await createHarness(
+        { stateStrategy: StateStrategy.Isolate },
+        { config: { plugins: [new webpack.HotModuleReplacementPlugin()] } }
+      )
+    })
+    beforeEach(async () => {
+      await harness.importExposed('remote', './counter')
+      const [{ translations }] = getIsolationSnapshot(harness, 'remote').namespaces
+      counterModuleId = translations.find(({ originModuleId }) => `${originModuleId}`.includes('counter'))
+        ?.originModuleId as string
+    })
+    afterAll(() => harness?.dispose())
+
+    it('keeps the isolated instances when a chunk registers a module factory again', () => {
+      const hostRequire = getHostRequire(harness, 'host')
+      const counterFactory = hostRequire.m[counterModuleId]
+      hostRequire.m[counterModuleId] = function (this: unknown, ...args: unknown[]) {
+        return counterFactory.apply(this, args)
+      }
+
+      expect(getIsolationSnapshot(harness, 'remote').namespaces[0].translations).toContainEqual(
+        expect.objectContaining({ originModuleId: counterModuleId, instantiated: true })
+      )
+    })
+
+    it('disposes the isolated instances when a hot update of the origin module is applied', async () => {
+      const warn = jest.spyOn(console, 'warn').mockImplementation(() => undefined)
+      // Hint: goes through the download and apply phases of webpack for an update of the counter
+      const applyHandlers: ApplyHandler[] = []
+      const hostRequire = getHostRequire(harness, 'host')
+      Object.values(hostRequire.hmrC as Record<string, (...args: unknown[]) => void>).forEach((downloadUpdate) =>
+        downloadUpdate([], [], [], [], applyHandlers, [counterModuleId])
+      )
+      const results = applyHandlers.map((applyHandler) => applyHandler({}))
+      results.forEach((result) => result.dispose?.())
+      await Promise.all(results.map((result) => result.apply?.()))
+
+      expect(getIsolationSnapshot(harness, 'remote').namespaces[0].translations).toEqual([])
+      // The exposed module importing the counter doesn't accept updates, so it can't be updated without a reload
+      await new Promise((resolve) => setTimeout(resolve))
+      expect(warn).toHaveBeenCalledWith(expect.stringContaining('a full reload may be needed'))
+      warn.mockRestore()
+    })
+  })
+})
@@ -0,0 +1,44 @@
+import { IsolationManifestAsset, ISOLATION_MANIFEST_VERSION } from '../ModuleFederationIsolationPlugin'
+import { simulateReuseOwn } from '../ModuleFederationIsolationSimulator'
+
+function createManifest(
+  name: string,
+  version: string,
+  modulePathToModuleId: Record<string, string | number>
+): IsolationManifestAsset {
+  return {
+    version: ISOLATION_MANIFEST_VERSION,
+    name,
+    packages: { lib: { [version]: { semverRangesIn: ['^1.0.0'], modulePathToModuleId } } },
+    consumeSharedRedirection: {},
+    providedModuleChunks: {},
+  }
+}
+
+function getUntranslatedModulePaths(origin: IsolationManifestAsset, own: IsolationManifestAsset): string[] {
+  const [result] = simulateReuseOwn([origin, own]).filter(({ ownHost }) => ownHost === own.name)
+  return result.whenOwnLoaded.untranslatedModulePaths
+}
+
+describe('simulateReuseOwn', () => {
+  it('matches modules through their module paths', () => {
+    const origin = createManifest('shell', '1.0.0', { 'dist/index.js': 1, 'dist/utils.js': 2 })
+    const own = createManifest('checkout', '1.0.1', { 'dist/index.js': 10 })
+
+    expect(getUntranslatedModulePaths(origin, own)).toEqual(['dist/utils.js'])
+  })
+
+  it('matches modules through their export paths across conditions', () => {
+    const origin = createManifest('shell', '1.0.0', { 'dist/index.mjs': 1, '.|import|namespace': 1 })
+    const own = createManifest('checkout', '1.0.1', { 'dist/index.cjs': 10, '.|require|flagged': 10 })
+
+    expect(getUntranslatedModulePaths(origin, own)).toEqual([])
+  })
+
+  it('does not match export paths across incompatible exports types', () => {
+    const origin = createManifest('shell', '1.0.0', { 'dist/index.mjs': 1, '.|import|namespace': 1 })
+    const own = createManifest('checkout', '1.0.1', { 'dist/index.cjs': 10, '.|require|dynamic': 10 })
+
+    expect(getUntranslatedModulePaths(origin, own)).toEqual(['dist/index.mjs'])
+  })
+})
@@ -0,0 +1,22 @@
+import webpack from 'webpack'
+import { StateStrategy } from '../ModuleFederationIsolationPlugin'
+import { createIsolationTestHarness } from '../ModuleFederationIsolationTestHarness'
+import { createRemoteConfig } from './remotes'
+
+describe('ModuleFederationIsolationTestHarness', () => {
+  jest.setTimeout(60000)
+
+  it('rejects with the error thrown by a remote entry', async () => {
+    const config = createRemoteConfig(
+      'host',
+      'packages-b',
+      { './counter': './src/counter.js' },
+      { stateStrategy: StateStrategy.Isolate },
+      { config: { plugins: [new webpack.BannerPlugin({ banner: 'throw new Error("Broken remote")', raw: true })] } }
+    )
+
+    await expect(createIsolationTestHarness({ createCompiler: webpack, remotes: [config] })).rejects.toThrow(
+      'Broken remote'
+    )
+  })
+})
@@ -0,0 +1,26 @@
+// Imports the remote entries given as the first argument, initializes them with a common share scope as a host would
+// do, and prints an instance ID for every [remote, exposed module, export] reference given as the second argument.
+// Native ES modules can't be imported from Jest, so the suite runs this script in a separate process
+const [remoteEntryUrls, references] = process.argv.slice(2).map((argument) => JSON.parse(argument))
+
+const shareScope = {}
+const containers = {}
+for (const [remoteName, remoteEntryUrl] of Object.entries(remoteEntryUrls)) {
+  containers[remoteName] = await import(remoteEntryUrl)
+  await containers[remoteName].init(shareScope)
+}
+
+const instanceIds = new Map()
+const getInstanceId = (instance) => {
+  if (!instanceIds.has(instance)) {
+    instanceIds.set(instance, instanceIds.size)
+  }
+  return instanceIds.get(instance)
+}
+
+const result = []
+for (const [remoteName, exposedModule, exportName] of references) {
+  const exports = (await containers[remoteName].get(exposedModule))()
+  result.push(getInstanceId(exports[exportName]))
+}
+console.log(JSON.stringify(result))
@@ -0,0 +1,9 @@
+// Records the runtime events in the global scope of the harness, where tests read them from
+const events = (globalThis.isolationHookEvents = globalThis.isolationHookEvents || [])
+
+export const onResolveShare = (event) => events.push(['onResolveShare', event])
+export const onTranslate = (event) => events.push(['onTranslate', event])
+export const onReuseOwn = (event) => events.push(['onReuseOwn', event])
+export const onStoreOrigin = (event) => events.push(['onStoreOrigin', event])
+export const onIsolate = (event) => events.push(['onIsolate', event])
+export const onFallback = (event) => events.push(['onFallback', event])
@@ -0,0 +1,5 @@
+// Uses the instance of the origin host, except in the outsider, which asks to reuse own modules while only isolation
+// is enabled at build time
+export function resolveStateStrategy({ ownHost }) {
+  return ownHost === 'outsider' ? 'reuse-own' : 'use-origin'
+}
@@ -0,0 +1 @@
+export { state } from 'logger'
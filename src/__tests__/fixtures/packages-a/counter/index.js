@@ -0,0 +1,2 @@
+export { state as helperState } from 'helper'
+export const state = { name: 'counter' }
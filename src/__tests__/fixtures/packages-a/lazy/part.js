@@ -0,0 +1 @@
+export const state = { name: 'part' }
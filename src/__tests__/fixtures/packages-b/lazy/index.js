@@ -0,0 +1,2 @@
+export const state = { name: 'lazy' }
+export const loadPart = () => import('./part')
@@ -0,0 +1,72 @@
+import path from 'path'
+import type { Configuration, WebpackPluginInstance } from 'webpack'
+import { ModuleFederationPlugin } from '@module-federation/enhanced/webpack'
+import { ModuleFederationIsolationPlugin, PluginOptions } from '../ModuleFederationIsolationPlugin'
+
+export const FIXTURES_PATH = path.join(__dirname, 'fixtures')
+
+type ModuleFederationPluginOptions = ConstructorParameters<typeof ModuleFederationPlugin>[0]
+
+export type RemoteConfigOptions = {
+  // Fixture directory the remote is built from, its name by default
+  fixture?: string
+  // ModuleFederationPlugin of the bundler, the webpack one by default
+  ModuleFederationPlugin?: new (options: ModuleFederationPluginOptions) => WebpackPluginInstance
+  moduleFederationOptions?: Partial<ModuleFederationPluginOptions>
+  // Merged into the configuration, with its plugins applied after the federation ones
+  config?: Configuration
+}
+
+export function createRemoteConfig(
+  name: string,
+  packagesDirectory: string,
+  exposes: Record<string, string>,
+  pluginOptions: Partial<PluginOptions>,
+  options: RemoteConfigOptions = {}
+): Configuration {
+  const { fixture = name, moduleFederationOptions, config } = options
+  const FederationPlugin = options.ModuleFederationPlugin ?? ModuleFederationPlugin
+  return {
+    mode: 'development',
+    devtool: false,
+    target: 'web',
+    context: path.join(FIXTURES_PATH, fixture),
+    entry: {},
+    resolve: { modules: [path.join(FIXTURES_PATH, packagesDirectory), 'node_modules'] },
+    ...config,
+    plugins: [
+      new ModuleFederationIsolationPlugin(pluginOptions),
+      new FederationPlugin({
+        name,
+        filename: 'remoteEntry.js',
+        exposes,
+        shared: { counter: {} },
+        dts: false,
+        manifest: false,
+        ...moduleFederationOptions,
+      }),
+      ...(config?.plugins ?? []),
+    ],
+  }
+}
+
+// The host provides counter@1.1.0, which the remote consumes instead of its own counter@1.0.0. Both of them depend on
+// helper@1.0.0, which is not shared
+export function createHostAndRemoteConfigs(
+  pluginOptions: Partial<PluginOptions>,
+  options?: RemoteConfigOptions
+): Configuration[] {
+  return [
+    createRemoteConfig('host', 'packages-b', { './counter': './src/counter.js' }, pluginOptions, options),
+    createRemoteConfig(
+      'remote',
+      'packages-a',
+      { './counter': './src/counter.js', './helper': './src/helper.js' },
+      pluginOptions,
+      options
+    ),
+  ]
+}
+
+export const selectState = (exports: Record<string, unknown>) => exports.state
+export const selectHelperState = (exports: Record<string, unknown>) => exports.helperState